@@ -0,0 +1,80 @@
+import React from 'react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Annotation, anchorTime, describeAnchor } from '../data/annotations';
+import type { MetricDefinition } from '../data/metricRegistry';
+
+interface AnnotationListProps {
+  annotations: Annotation[];
+  metricDefs: Record<string, MetricDefinition>;
+  userId?: string; // notes can only be changed by their author
+  selectedId: string | null;
+  onSelect: (note: Annotation) => void;
+  onEdit: (note: Annotation) => void;
+  onDelete: (note: Annotation) => void;
+}
+
+export const AnnotationList: React.FC<AnnotationListProps> = ({
+  annotations,
+  metricDefs,
+  userId,
+  selectedId,
+  onSelect,
+  onEdit,
+  onDelete,
+}) => {
+  const ordered = [...annotations].sort((a, b) => anchorTime(a.anchor) - anchorTime(b.anchor));
+  return (
+    <div className="border border-[#1c2a46] rounded-xl bg-[#0c1220] px-4 py-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-slate-100">Annotations</h3>
+        <span className="text-xs text-slate-400">{annotations.length} on this record</span>
+      </div>
+      <ul className="mt-2 text-xs text-slate-300">
+        {ordered.map((note) => {
+          const anchor = note.anchor;
+          const own = !!userId && note.author === userId;
+          return (
+            <li
+              key={note.id}
+              className={clsx(
+                'flex items-start gap-3 border-t border-[#1c2a46] py-1.5',
+                note.id === selectedId && 'bg-[#101a2c] text-slate-100'
+              )}
+            >
+              <button onClick={() => onSelect(note)} className="flex-1 text-left hover:text-slate-100">
+                <div className="text-slate-400">
+                  {describeAnchor(anchor, anchor.kind === 'point' ? metricDefs[anchor.seriesId]?.label : undefined)}
+                </div>
+                <div className="whitespace-pre-wrap">{note.text}</div>
+                <div className="text-slate-500">
+                  {note.author}, {format(new Date(note.createdAt), 'PP p')}
+                  {note.editedAt && ` (edited ${format(new Date(note.editedAt), 'PP p')})`}
+                </div>
+              </button>
+              {own && (
+                <span className="flex gap-2 pt-0.5">
+                  <button
+                    onClick={() => onEdit(note)}
+                    className="text-slate-500 hover:text-slate-200"
+                    title="Edit annotation"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(note)}
+                    className="text-slate-500 hover:text-red-300"
+                    title="Delete annotation"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
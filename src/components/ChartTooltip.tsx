@@ -0,0 +1,56 @@
+import React, { forwardRef, useImperativeHandle, useState } from 'react';
+
+export interface TooltipAt {
+  x: number; // chart coordinates
+  y: number;
+  content: React.ReactNode;
+}
+
+// the chart shows and hides hover state through these, so a mouse move re-renders only the tooltip
+export interface HoverHandle<T> {
+  show: (value: T | null) => void;
+}
+
+interface ChartTooltipProps {
+  id: string;
+  fallback: TooltipAt | null; // shown while nothing is hovered (the keyboard-focused item's tooltip)
+  width: number; // chart size, to keep the tooltip inside it
+  height: number;
+}
+
+const OFFSET = 12;
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+/** The chart's tooltip: the hovered item's, else the keyboard-focused one's. */
+export const ChartTooltip = forwardRef<HoverHandle<TooltipAt>, ChartTooltipProps>(
+  ({ id, fallback, width, height }, ref) => {
+    const [hover, setHover] = useState<TooltipAt | null>(null);
+    useImperativeHandle(ref, () => ({ show: setHover }), []);
+    const tooltip = hover ?? fallback;
+    if (!tooltip) return null;
+    return (
+      <div
+        id={id}
+        role="tooltip"
+        className="absolute z-30 pointer-events-none bg-[#0f172a] text-slate-100 border border-slate-700 rounded-md shadow px-3 py-2 text-xs"
+        style={{
+          left: clamp(tooltip.x + OFFSET, 8, width - 300),
+          top: clamp(tooltip.y + OFFSET, 8, height - 100),
+          maxWidth: 280,
+        }}
+      >
+        {tooltip.content}
+      </div>
+    );
+  }
+);
+ChartTooltip.displayName = 'ChartTooltip';
+
+/** Ring around the canvas-painted reading under the mouse. */
+export const HoverRing = forwardRef<HoverHandle<{ x: number; y: number }>>((_props, ref) => {
+  const [at, setAt] = useState<{ x: number; y: number } | null>(null);
+  useImperativeHandle(ref, () => ({ show: setAt }), []);
+  if (!at) return null;
+  return <circle cx={at.x} cy={at.y} r={6} fill="none" stroke="#e6f4ff" strokeWidth={2} pointerEvents="none" />;
+});
+HoverRing.displayName = 'HoverRing';
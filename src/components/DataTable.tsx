@@ -0,0 +1,189 @@
+import React from 'react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { eventDates, metaSummary, rangeStatus } from '../data/describe';
+import type { EventTypeDefinition } from '../data/eventTypeRegistry';
+import { classifyValue, MetricDefinition, ReferenceRange, severityColor } from '../data/metricRegistry';
+import type { MetricId, MetricSeries, TimelineEvent, TimelineEventType } from '../data/types';
+
+interface DataTableProps {
+  events: TimelineEvent[]; // already filtered and in time order
+  series: MetricSeries[]; // visible series, in display units
+  domain: [Date, Date]; // only rows in the visible window are listed
+  typeDefs: Record<TimelineEventType, EventTypeDefinition>;
+  metricDefs: Record<MetricId, MetricDefinition>;
+  rangesById: Record<MetricId, ReferenceRange[]>;
+  selectedId: string | null;
+  onSelect: (event: TimelineEvent) => void;
+}
+
+const MAX_ROWS = 500; // per table; narrow the window to see the rest
+
+const th = 'font-normal px-2 py-1';
+const td = 'px-2 py-1';
+
+const overlaps = (e: TimelineEvent, [from, to]: [Date, Date]) => {
+  const start = new Date(e.timestamp).getTime();
+  const end = e.ongoing ? Infinity : e.end ? new Date(e.end).getTime() : start;
+  return start <= to.getTime() && end >= from.getTime();
+};
+
+// the chart's content as plain tables, for screen readers and anyone who prefers numbers
+export const DataTable: React.FC<DataTableProps> = ({
+  events,
+  series,
+  domain,
+  typeDefs,
+  metricDefs,
+  rangesById,
+  selectedId,
+  onSelect,
+}) => {
+  const rows = events.filter((e) => overlaps(e, domain));
+  const readings = series
+    .flatMap((s) =>
+      s.points
+        .filter((p) => {
+          const t = new Date(p.t).getTime();
+          return t >= domain[0].getTime() && t <= domain[1].getTime();
+        })
+        .map((p) => ({ s, p }))
+    )
+    .sort((a, b) => new Date(a.p.t).getTime() - new Date(b.p.t).getTime());
+  const shown = `${format(domain[0], 'PP')} – ${format(domain[1], 'PP')}`;
+
+  return (
+    <div className="border border-[#1c2a46] rounded-xl bg-[#0c1220] px-4 py-3 space-y-4 text-xs text-slate-300">
+      <table className="w-full">
+        <caption className="text-left text-sm font-semibold text-slate-100 pb-1">
+          Events, {shown}
+          {rows.length > MAX_ROWS && (
+            <span className="ml-2 font-normal text-slate-400">
+              showing the first {MAX_ROWS} of {rows.length}
+            </span>
+          )}
+        </caption>
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th scope="col" className={th}>
+              Date
+            </th>
+            <th scope="col" className={th}>
+              Type
+            </th>
+            <th scope="col" className={th}>
+              Event
+            </th>
+            <th scope="col" className={th}>
+              Details
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, MAX_ROWS).map((e) => (
+            <tr
+              key={e.id}
+              className={clsx('border-t border-[#1c2a46]', e.id === selectedId && 'bg-[#101a2c] text-slate-100')}
+            >
+              <td className={clsx(td, 'whitespace-nowrap text-slate-400')}>{eventDates(e)}</td>
+              <td className={td}>
+                <span
+                  className="inline-block w-2 h-2 rounded-full mr-2"
+                  style={{ background: typeDefs[e.type]?.color }}
+                  aria-hidden
+                />
+                {typeDefs[e.type]?.label ?? e.type}
+              </td>
+              <th scope="row" className={clsx(td, 'text-left font-normal')}>
+                <button
+                  className="text-left hover:text-slate-100 underline-offset-2 hover:underline"
+                  onClick={() => onSelect(e)}
+                >
+                  {e.label}
+                </button>
+              </th>
+              <td className={clsx(td, 'text-slate-400')}>
+                {[
+                  e.segments?.map((sg) => `${format(new Date(sg.start), 'PP')}: ${sg.label}`).join('; '),
+                  metaSummary(e.meta),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </td>
+            </tr>
+          ))}
+          {!rows.length && (
+            <tr>
+              <td colSpan={4} className={clsx(td, 'text-slate-400')}>
+                No visible events in this window.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <table className="w-full">
+        <caption className="text-left text-sm font-semibold text-slate-100 pb-1">
+          Metric readings, {shown}
+          {readings.length > MAX_ROWS && (
+            <span className="ml-2 font-normal text-slate-400">
+              showing the first {MAX_ROWS} of {readings.length}
+            </span>
+          )}
+        </caption>
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th scope="col" className={th}>
+              Date
+            </th>
+            <th scope="col" className={th}>
+              Metric
+            </th>
+            <th scope="col" className={th}>
+              Value
+            </th>
+            <th scope="col" className={th}>
+              Reference range
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {readings.slice(0, MAX_ROWS).map(({ s, p }) => {
+            const def = metricDefs[s.id];
+            const range = classifyValue(rangesById[s.id] ?? [], p.value);
+            return (
+              <tr key={`${s.id}|${p.t}`} className="border-t border-[#1c2a46]">
+                <td className={clsx(td, 'whitespace-nowrap text-slate-400')}>{format(new Date(p.t), 'PP p')}</td>
+                <th scope="row" className={clsx(td, 'text-left font-normal')}>
+                  <span
+                    className="inline-block w-2 h-2 rounded-full mr-2"
+                    style={{ background: def.color }}
+                    aria-hidden
+                  />
+                  {def.label}
+                </th>
+                <td className={td}>
+                  {p.value}
+                  {def.unit ? ` ${def.unit}` : ''}
+                </td>
+                <td
+                  className={clsx(td, 'text-slate-400')}
+                  style={range && range.severity !== 'normal' ? { color: severityColor[range.severity] } : undefined}
+                >
+                  {rangeStatus(range, def.unit)}
+                </td>
+              </tr>
+            );
+          })}
+          {!readings.length && (
+            <tr>
+              <td colSpan={4} className={clsx(td, 'text-slate-400')}>
+                No visible readings in this window.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React from 'react';
+import { format, formatDistanceStrict } from 'date-fns';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import type { EventTypeDefinition } from '../data/eventTypeRegistry';
+import type { MetricDefinition } from '../data/metricRegistry';
+import type { MetricPoint, MetricSeries, TimelineEvent } from '../data/types';
+
+interface EventDetailPanelProps {
+  event: TimelineEvent;
+  typeDef: EventTypeDefinition;
+  previousOfType: TimelineEvent | null; // previous event of the same type, for "time since"
+  series: MetricSeries[];
+  metricDefs: Record<string, MetricDefinition>;
+  onPrev?: () => void; // undefined when there is no previous event
+  onNext?: () => void;
+  onClose: () => void;
+}
+
+// display names for coded meta keys
+const CODE_LABELS: Record<string, string> = {
+  icd10: 'ICD-10',
+  snomed: 'SNOMED CT',
+  rxnorm: 'RxNorm',
+  loinc: 'LOINC',
+  cpt: 'CPT',
+};
+
+const KEY_LABELS: Record<string, string> = {
+  dose: 'Dose',
+  value: 'Value',
+  side: 'Side',
+  valence: 'Valence',
+  status: 'Status',
+  modality: 'Modality',
+};
+
+function metaRows(meta: Record<string, unknown> | undefined) {
+  if (!meta) return { codes: [], details: [] };
+  const codes: { label: string; value: string }[] = [];
+  const details: { label: string; value: string }[] = [];
+  for (const [key, raw] of Object.entries(meta)) {
+    if (raw == null || raw === '' || key === 'units') continue;
+    if (CODE_LABELS[key]) {
+      codes.push({ label: CODE_LABELS[key], value: String(raw) });
+      continue;
+    }
+    // values are shown with their units (e.g. "8.1 %")
+    const value = key === 'value' && meta.units ? `${raw} ${meta.units}` : String(raw);
+    details.push({ label: KEY_LABELS[key] ?? key.replace(/([a-z])([A-Z])/g, '$1 $2'), value });
+  }
+  return { codes, details };
+}
+
+// last point strictly before `t` and first point strictly after it
+function neighbours(points: MetricPoint[], t: number) {
+  let before: MetricPoint | null = null;
+  let after: MetricPoint | null = null;
+  for (const p of points) {
+    const pt = new Date(p.t).getTime();
+    if (pt < t && (!before || pt > new Date(before.t).getTime())) before = p;
+    if (pt > t && (!after || pt < new Date(after.t).getTime())) after = p;
+  }
+  return { before, after };
+}
+
+const navButton =
+  'flex items-center gap-1 px-2 py-1 rounded border border-[#1c2a46] text-xs text-slate-300 hover:text-slate-100 disabled:opacity-40 disabled:hover:text-slate-300';
+
+export const EventDetailPanel: React.FC<EventDetailPanelProps> = ({
+  event,
+  typeDef,
+  previousOfType,
+  series,
+  metricDefs,
+  onPrev,
+  onNext,
+  onClose,
+}) => {
+  const start = new Date(event.timestamp);
+  const { codes, details } = metaRows(event.meta);
+  const color = typeDef.colorFor?.(event) ?? typeDef.color;
+
+  const fmtPoint = (id: string, p: MetricPoint | null) => {
+    if (!p) return '—';
+    const unit = metricDefs[id]?.unit;
+    return `${p.value}${unit ? ` ${unit}` : ''} (${format(new Date(p.t), 'PP')})`;
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 z-40 h-full w-80 overflow-y-auto bg-[#0f172a]/95 border-l border-slate-700 shadow-xl backdrop-blur-sm px-4 py-3 text-sm text-slate-300">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ background: color }} />
+          {typeDef.label}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-100" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <h3 className="mt-2 text-lg font-semibold text-slate-100">{event.label}</h3>
+      <div className="text-slate-400">
+        {event.end || event.ongoing
+          ? `${format(start, 'PP')} – ${event.end ? format(new Date(event.end), 'PP') : 'ongoing'}`
+          : format(start, 'PP p')}
+      </div>
+      <div className="mt-1 text-xs text-slate-400">
+        {previousOfType
+          ? `${formatDistanceStrict(start, new Date(previousOfType.timestamp))} since previous ${typeDef.label.toLowerCase()} (${previousOfType.label})`
+          : `First ${typeDef.label.toLowerCase()} on record`}
+      </div>
+
+      {event.segments && event.segments.length > 0 && (
+        <section className="mt-4">
+          <h4 className="text-xs uppercase tracking-wide text-slate-500">Changes</h4>
+          <ul className="mt-1 space-y-0.5">
+            {event.segments.map((sg) => (
+              <li key={sg.start}>
+                <span className="text-slate-400">{format(new Date(sg.start), 'PP')}:</span> {sg.label}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {details.length > 0 && (
+        <section className="mt-4">
+          <h4 className="text-xs uppercase tracking-wide text-slate-500">Details</h4>
+          <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {details.map((d) => (
+              <React.Fragment key={d.label}>
+                <dt className="capitalize text-slate-400">{d.label}</dt>
+                <dd className="text-slate-100">{d.value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </section>
+      )}
+
+      {codes.length > 0 && (
+        <section className="mt-4">
+          <h4 className="text-xs uppercase tracking-wide text-slate-500">Codes</h4>
+          <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {codes.map((c) => (
+              <React.Fragment key={c.label}>
+                <dt className="text-slate-400">{c.label}</dt>
+                <dd className="font-mono text-slate-100">{c.value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </section>
+      )}
+
+      {series.length > 0 && (
+        <section className="mt-4">
+          <h4 className="text-xs uppercase tracking-wide text-slate-500">Metrics around this event</h4>
+          <table className="mt-1 w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-normal">Metric</th>
+                <th className="font-normal">Before</th>
+                <th className="font-normal">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((s) => {
+                const { before, after } = neighbours(s.points, start.getTime());
+                return (
+                  <tr key={s.id} className="align-top">
+                    <td className="pr-2 py-0.5 text-slate-400">{metricDefs[s.id]?.label ?? s.label}</td>
+                    <td className="pr-2 py-0.5">{fmtPoint(s.id, before)}</td>
+                    <td className="py-0.5">{fmtPoint(s.id, after)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <div className="mt-5 flex justify-between">
+        <button className={navButton} onClick={onPrev} disabled={!onPrev}>
+          <ChevronLeft size={14} /> Previous
+        </button>
+        <button className={navButton} onClick={onNext} disabled={!onNext}>
+          Next <ChevronRight size={14} />
+        </button>
+      </div>
+    </aside>
+  );
+};
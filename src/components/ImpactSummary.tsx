@@ -0,0 +1,76 @@
+import React from 'react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { EventImpact, formatImpactDelta, ImpactWindow } from '../data/impact';
+import type { MetricDefinition } from '../data/metricRegistry';
+import type { TimelineEvent } from '../data/types';
+
+interface ImpactSummaryProps {
+  impacts: EventImpact[]; // already ranked
+  window: ImpactWindow;
+  metricDefs: Record<string, MetricDefinition>;
+  selectedId: string | null;
+  onSelect: (event: TimelineEvent) => void;
+}
+
+export const ImpactSummary: React.FC<ImpactSummaryProps> = ({ impacts, window, metricDefs, selectedId, onSelect }) => {
+  const ranked = impacts.filter((i) => i.top);
+  return (
+    <div className="border border-[#1c2a46] rounded-xl bg-[#0c1220] px-4 py-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-slate-100">Event impact</h3>
+        <span className="text-xs text-slate-400">
+          mean of readings {window.beforeDays}d before vs. {window.afterDays}d after each event
+        </span>
+      </div>
+      {ranked.length === 0 ? (
+        <div className="mt-2 text-xs text-slate-400">No visible event has metric readings on both sides.</div>
+      ) : (
+        <table className="mt-2 w-full text-xs text-slate-300">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-normal w-8">#</th>
+              <th className="font-normal">Event</th>
+              <th className="font-normal">Date</th>
+              <th className="font-normal">Strongest change</th>
+              <th className="font-normal">Other changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((imp, i) => {
+              const top = imp.top!;
+              const others = imp.metrics.filter((m) => m !== top && m.delta != null);
+              return (
+                <tr
+                  key={imp.event.id}
+                  onClick={() => onSelect(imp.event)}
+                  className={clsx(
+                    'cursor-pointer border-t border-[#1c2a46] hover:bg-[#101a2c]',
+                    imp.event.id === selectedId && 'bg-[#101a2c] text-slate-100'
+                  )}
+                >
+                  <td className="py-1 text-slate-500">{i + 1}</td>
+                  <td className="py-1">{imp.event.label}</td>
+                  <td className="py-1 text-slate-400">{format(new Date(imp.event.timestamp), 'PP')}</td>
+                  <td className="py-1">
+                    <span style={{ color: metricDefs[top.metricId]?.color }}>{metricDefs[top.metricId]?.label}</span>{' '}
+                    {formatImpactDelta(top, metricDefs[top.metricId])}{' '}
+                    <span className="text-slate-500">({Math.round((top.relative ?? 0) * 100)}% of range)</span>
+                  </td>
+                  <td className="py-1 text-slate-400">
+                    {others
+                      .map(
+                        (m) =>
+                          `${metricDefs[m.metricId]?.label ?? m.metricId} ${formatImpactDelta(m, metricDefs[m.metricId])}`
+                      )
+                      .join(' · ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { X } from 'lucide-react';
+import { detectFormat, ImportFormat, importData, ImportResult } from '../data/importExport';
+import type { MetricRegistry } from '../data/metricRegistry';
+
+interface ImportDialogProps {
+  metrics: MetricRegistry; // imported readings are converted into registered units
+  onImport: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 200;
+
+const button = 'px-3 py-1 rounded-lg border border-[#1c2a46] text-xs text-slate-300 hover:text-slate-100';
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ metrics, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [fmt, setFmt] = useState<ImportFormat>('csv');
+  const [fmtChosen, setFmtChosen] = useState(false); // once the user picks a format, stop guessing it
+
+  const result = useMemo(() => (text.trim() ? importData(text, fmt, metrics) : null), [text, fmt, metrics]);
+  const valid = result ? result.rows.filter((r) => !r.error).length : 0;
+  const invalid = result ? result.rows.length - valid : 0;
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    if (!fmtChosen) setFmt(detectFormat(content, file.name));
+    setText(content);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Import data"
+        className="w-[48rem] max-h-[85vh] flex flex-col border border-[#1c2a46] rounded-xl bg-[#0c1220] p-4 text-sm text-slate-300 shadow-2xl"
+        onClick={(ev) => ev.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold text-slate-100">Import data</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-100" aria-label="Close">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-slate-400">
+          CSV in long format (<code>metric,timestamp,value,unit</code>) or JSON with <code>events</code> and{' '}
+          <code>series</code>. Rows with errors are skipped.
+        </p>
+
+        <div className="mt-3 flex items-center gap-3">
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={onFile} className="text-xs" />
+          <select
+            value={fmt}
+            onChange={(ev) => {
+              setFmt(ev.target.value as ImportFormat);
+              setFmtChosen(true);
+            }}
+            className="bg-[#0b1426] border border-[#1c2a46] rounded px-1 py-0.5 text-xs text-slate-300"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <textarea
+          value={text}
+          onChange={(ev) => {
+            setText(ev.target.value);
+            if (!fmtChosen) setFmt(detectFormat(ev.target.value));
+          }}
+          placeholder="…or paste data here"
+          className="mt-2 h-24 w-full resize-none rounded border border-[#1c2a46] bg-[#0b1426] p-2 font-mono text-xs text-slate-200"
+        />
+
+        {result && (
+          <>
+            <div className="mt-3 text-xs text-slate-400">
+              {valid} row{valid === 1 ? '' : 's'} ready
+              {invalid > 0 && <span className="text-red-400"> · {invalid} with errors</span>}
+              {result.rows.length > PREVIEW_ROWS && ` · showing the first ${PREVIEW_ROWS}`}
+            </div>
+            <div className="mt-1 min-h-0 flex-1 overflow-auto border border-[#1c2a46] rounded">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-[#0c1220]">
+                  <tr className="text-left text-slate-500">
+                    <th className="font-normal px-2">Source</th>
+                    <th className="font-normal px-2">Kind</th>
+                    <th className="font-normal px-2">Id</th>
+                    <th className="font-normal px-2">Label</th>
+                    <th className="font-normal px-2">Date</th>
+                    <th className="font-normal px-2">Value / type</th>
+                    <th className="font-normal px-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.slice(0, PREVIEW_ROWS).map((r) => (
+                    <tr
+                      key={r.source}
+                      className={clsx('border-t border-[#1c2a46]', r.error && 'bg-red-950/40 text-red-300')}
+                    >
+                      <td className="px-2 py-0.5 text-slate-500">{r.source}</td>
+                      <td className="px-2 py-0.5">{r.kind}</td>
+                      <td className="px-2 py-0.5">{r.id}</td>
+                      <td className="px-2 py-0.5">{r.label}</td>
+                      <td className="px-2 py-0.5">{r.t}</td>
+                      <td className="px-2 py-0.5">{r.value}</td>
+                      <td className="px-2 py-0.5">{r.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="mt-3 flex justify-end gap-2">
+          <button className={button} onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className={clsx(button, valid ? 'bg-teal-600/80 border-teal-400 text-white' : 'opacity-40')}
+            disabled={!valid}
+            onClick={() => result && onImport(result)}
+          >
+            Import {valid} row{valid === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
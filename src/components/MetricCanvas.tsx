@@ -0,0 +1,102 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import type { curveLinear } from '@visx/curve';
+
+type CurveFactory = typeof curveLinear;
+
+// one series in pixel space, ready to draw
+export interface CanvasLayer {
+  color: string;
+  xs: Float64Array;
+  ys: Float64Array;
+  band?: { lo: Float64Array; hi: Float64Array }; // min–max envelope (rollups), in pixels
+  rings?: { i: number; color: string }[]; // out-of-range markers by point index
+}
+
+interface MetricCanvasProps {
+  x: number; // placement inside the chart SVG; layers are in chart coordinates
+  y: number;
+  width: number;
+  height: number;
+  layers: CanvasLayer[];
+  curve?: CurveFactory; // same curve the SVG path would use; straight segments when absent
+  dotSpacing?: number; // points are dotted only when they are at least this far apart on average
+}
+
+/**
+ * Metric lines and points painted on a canvas embedded in the chart SVG, for series too large
+ * to draw as SVG elements. Sits in the SVG's paint order, so events and projections stay on top;
+ * hover and focus are handled by the SVG around it.
+ */
+export const MetricCanvas: React.FC<MetricCanvasProps> = ({ x, y, width, height, layers, curve, dotSpacing = 6 }) => {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  const dpr = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+
+  useLayoutEffect(() => {
+    const ctx = ref.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.translate(-x, -y);
+    ctx.lineJoin = 'round';
+
+    for (const l of layers) {
+      const n = l.xs.length;
+      if (!n) continue;
+      if (l.band) {
+        ctx.beginPath();
+        ctx.moveTo(l.xs[0], l.band.hi[0]);
+        for (let i = 1; i < n; i++) ctx.lineTo(l.xs[i], l.band.hi[i]);
+        for (let i = n - 1; i >= 0; i--) ctx.lineTo(l.xs[i], l.band.lo[i]);
+        ctx.closePath();
+        ctx.fillStyle = l.color;
+        ctx.globalAlpha = 0.18;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+      ctx.beginPath();
+      if (curve) {
+        const c = curve(ctx);
+        c.lineStart();
+        for (let i = 0; i < n; i++) c.point(l.xs[i], l.ys[i]);
+        c.lineEnd();
+      } else {
+        ctx.moveTo(l.xs[0], l.ys[0]);
+        for (let i = 1; i < n; i++) ctx.lineTo(l.xs[i], l.ys[i]);
+      }
+      ctx.strokeStyle = l.color;
+      ctx.globalAlpha = 0.9;
+      ctx.lineWidth = l.band || n > width ? 1.5 : 5; // dense series and rollup means read better thin
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+
+      if (!l.band && n > 1 && (l.xs[n - 1] - l.xs[0]) / (n - 1) >= dotSpacing) {
+        ctx.fillStyle = l.color;
+        ctx.beginPath();
+        for (let i = 0; i < n; i++) {
+          ctx.moveTo(l.xs[i] + 3, l.ys[i]);
+          ctx.arc(l.xs[i], l.ys[i], 3, 0, 2 * Math.PI);
+        }
+        ctx.fill();
+      }
+
+      ctx.lineWidth = 2;
+      for (const r of l.rings ?? []) {
+        ctx.strokeStyle = r.color;
+        ctx.beginPath();
+        ctx.arc(l.xs[r.i], l.ys[r.i], 7, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+    }
+  }, [layers, curve, x, y, width, height, dpr, dotSpacing]);
+
+  return (
+    <foreignObject x={x} y={y} width={width} height={height} pointerEvents="none">
+      <canvas
+        ref={ref}
+        width={Math.round(width * dpr)}
+        height={Math.round(height * dpr)}
+        style={{ width, height, display: 'block' }}
+      />
+    </foreignObject>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useMemo, useRef } from 'react';
+import { scaleLinear, scaleTime } from '@visx/scale';
+import { LinePath } from '@visx/shape';
+import { extent as extentOf } from '../data/arrays';
+import type { MetricDefinition } from '../data/metricRegistry';
+import { neon } from '../theme';
+import type { MetricPoint, MetricSeries, TimelineEvent } from '../data/types';
+import { useContainerSize } from '../hooks/useContainerSize';
+
+interface OverviewBrushProps {
+  extent: [Date, Date]; // the whole record
+  value: [Date, Date]; // current view window
+  events: TimelineEvent[];
+  series: MetricSeries[];
+  metricDefs: Record<string, MetricDefinition>;
+  onChange: (domain: [Date, Date]) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end' | 'new';
+
+const height = 64;
+const pad = 8;
+const handleW = 6;
+const minSpanMs = 86_400_000; // one day
+const binPx = 6; // width of an event-density bin
+
+// the lowest and highest reading in each pixel column, in time order; keeps long series cheap to draw
+function columnExtremes(points: MetricPoint[], x: (p: MetricPoint) => number): MetricPoint[] {
+  const out: MetricPoint[] = [];
+  let col = NaN;
+  let lo: [number, MetricPoint] | null = null;
+  let hi: [number, MetricPoint] | null = null;
+  const flush = () => {
+    if (!lo || !hi) return;
+    if (lo[1] === hi[1]) out.push(lo[1]);
+    else out.push(...(lo[0] < hi[0] ? [lo[1], hi[1]] : [hi[1], lo[1]]));
+  };
+  points.forEach((p, i) => {
+    const c = Math.round(x(p));
+    if (c !== col) {
+      flush();
+      col = c;
+      lo = hi = [i, p];
+    } else {
+      if (p.value < lo![1].value) lo = [i, p];
+      if (p.value > hi![1].value) hi = [i, p];
+    }
+  });
+  flush();
+  return out;
+}
+
+export const OverviewBrush: React.FC<OverviewBrushProps> = ({
+  extent,
+  value,
+  events,
+  series,
+  metricDefs,
+  onChange,
+}) => {
+  const { ref, width } = useContainerSize<HTMLDivElement>();
+  const drag = useRef<{ mode: DragMode; originX: number; start: number; end: number } | null>(null);
+
+  // keyed on the times so a new but equal extent doesn't redo the sparklines
+  const [t0, t1] = [extent[0].getTime(), extent[1].getTime()];
+  const xScale = useMemo(
+    () => scaleTime<number>({ domain: [new Date(t0), new Date(t1)], range: [pad, Math.max(pad + 1, width - pad)] }),
+    [t0, t1, width]
+  );
+
+  // events per bin across the whole record
+  const bins = useMemo(() => {
+    const n = Math.max(1, Math.floor((width - 2 * pad) / binPx));
+    const counts = new Array<number>(n).fill(0);
+    for (const e of events) {
+      const i = Math.floor((xScale(new Date(e.timestamp)) - pad) / binPx);
+      if (i >= 0 && i < n) counts[i]++;
+    }
+    return counts;
+  }, [events, xScale, width]);
+  const maxBin = Math.max(1, extentOf(bins)[1]);
+
+  // each sparkline is scaled to its own range
+  const sparkY = scaleLinear<number>({ domain: [0, 1], range: [height - 6, 6] });
+  const sparklines = useMemo(
+    () =>
+      series.map((s) => {
+        const [min, max] = extentOf(s.points.map((p) => p.value));
+        return { s, min, span: max - min || 1, points: columnExtremes(s.points, (p) => xScale(new Date(p.t))) };
+      }),
+    [series, xScale]
+  );
+
+  const [x0, x1] = [xScale(value[0]), xScale(value[1])];
+  const [lo, hi] = [extent[0].getTime(), extent[1].getTime()];
+
+  const clampDomain = (a: number, b: number): [Date, Date] => {
+    let start = Math.min(a, b);
+    let end = Math.max(a, b);
+    if (end - start < minSpanMs) end = start + minSpanMs;
+    if (start < lo) [start, end] = [lo, Math.min(hi, lo + (end - start))];
+    if (end > hi) [start, end] = [Math.max(lo, hi - (end - start)), hi];
+    return [new Date(start), new Date(end)];
+  };
+
+  const onPointerDown = (mode: DragMode) => (ev: React.PointerEvent) => {
+    ev.stopPropagation();
+    (ev.currentTarget as Element).setPointerCapture(ev.pointerId);
+    const rect = (ev.currentTarget as Element).closest('svg')!.getBoundingClientRect();
+    const originX = ev.clientX - rect.left;
+    drag.current = { mode, originX, start: value[0].getTime(), end: value[1].getTime() };
+    if (mode === 'new') {
+      const t = xScale.invert(originX).getTime();
+      drag.current.start = drag.current.end = t;
+    }
+  };
+
+  const onPointerMove = (ev: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const rect = (ev.currentTarget as Element).closest('svg')!.getBoundingClientRect();
+    const x = ev.clientX - rect.left;
+    const t = xScale.invert(x).getTime();
+    const dt = t - xScale.invert(d.originX).getTime();
+    if (d.mode === 'move') onChange(clampDomain(d.start + dt, d.end + dt));
+    if (d.mode === 'start') onChange(clampDomain(Math.min(d.start + dt, d.end - minSpanMs), d.end));
+    if (d.mode === 'end') onChange(clampDomain(d.start, Math.max(d.end + dt, d.start + minSpanMs)));
+    if (d.mode === 'new' && Math.abs(x - d.originX) > 2) onChange(clampDomain(d.start, t));
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  return (
+    <div ref={ref} className="border border-[#1c2a46] rounded-xl bg-[#0c1220] select-none">
+      {width > 0 && (
+        <svg
+          width={width}
+          height={height}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          style={{ touchAction: 'none' }}
+        >
+          {/* background: click-drag draws a new window */}
+          <rect
+            x={0}
+            y={0}
+            width={width}
+            height={height}
+            fill="transparent"
+            cursor="crosshair"
+            onPointerDown={onPointerDown('new')}
+          />
+
+          {/* event density */}
+          {bins.map((c, i) =>
+            c ? (
+              <rect
+                key={i}
+                x={pad + i * binPx}
+                y={height - (c / maxBin) * (height - 12)}
+                width={binPx - 1}
+                height={(c / maxBin) * (height - 12)}
+                fill={neon.blue}
+                opacity={0.18}
+                pointerEvents="none"
+              />
+            ) : null
+          )}
+
+          {/* metric sparklines */}
+          {sparklines.map(({ s, min, span, points }) => {
+            return (
+              <LinePath
+                key={s.id}
+                data={points}
+                x={(p) => xScale(new Date(p.t))}
+                y={(p) => sparkY((p.value - min) / span)}
+                stroke={metricDefs[s.id]?.color}
+                strokeOpacity={0.7}
+                strokeWidth={1.25}
+                pointerEvents="none"
+              />
+            );
+          })}
+
+          {/* dim everything outside the window */}
+          <rect
+            x={0}
+            y={0}
+            width={Math.max(0, x0)}
+            height={height}
+            fill="#050912"
+            opacity={0.55}
+            pointerEvents="none"
+          />
+          <rect
+            x={x1}
+            y={0}
+            width={Math.max(0, width - x1)}
+            height={height}
+            fill="#050912"
+            opacity={0.55}
+            pointerEvents="none"
+          />
+
+          {/* brush */}
+          <rect
+            x={x0}
+            y={1}
+            width={Math.max(1, x1 - x0)}
+            height={height - 2}
+            fill={neon.cyan}
+            fillOpacity={0.06}
+            stroke={neon.cyan}
+            strokeOpacity={0.6}
+            rx={4}
+            cursor="grab"
+            onPointerDown={onPointerDown('move')}
+          />
+          {(['start', 'end'] as const).map((edge) => (
+            <rect
+              key={edge}
+              x={(edge === 'start' ? x0 : x1) - handleW / 2}
+              y={height / 2 - 12}
+              width={handleW}
+              height={24}
+              rx={2}
+              fill={neon.cyan}
+              fillOpacity={0.8}
+              cursor="ew-resize"
+              onPointerDown={onPointerDown(edge)}
+            />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
@@ -1,62 +1,155 @@
 import React, { useMemo, useRef, useState } from 'react';
-import { TransformComponent, TransformWrapper } from 'react-zoom-pan-pinch';
 import { AxisBottom, AxisLeft } from '@visx/axis';
 import { scaleTime, scaleLinear } from '@visx/scale';
-import { LinePath } from '@visx/shape';
+import { Area, LinePath } from '@visx/shape';
 import { localPoint } from '@visx/event';
 import clsx from 'clsx';
 import { format } from 'date-fns';
-import {
-  mockPatientEvents,
-  metricSeries,
-  TimelineEventType,
+import { ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
+import type {
+  MetricId,
+  MetricPoint,
   MetricSeries,
-  patientProfile,
-} from '../data/mockPatientData';
-import { curveMonotoneX, curveCatmullRom, curveBasis } from '@visx/curve';
-import type { LucideIcon } from 'lucide-react';
+  PatientProfile,
+  SmoothMode,
+  TimelineEvent,
+  TimelineEventType,
+  TimeRange,
+} from '../data/types';
+import {
+  classifyValue,
+  defaultMetricRegistry,
+  formatRange,
+  MetricDefinition,
+  MetricRegistry,
+  rangesFor,
+  ReferenceRange,
+  resolveMetric,
+  severityColor,
+  unitGroupAxis,
+} from '../data/metricRegistry';
+import {
+  defaultEventTypeRegistry,
+  EventTypeDefinition,
+  EventTypeRegistry,
+  resolveEventTypes,
+} from '../data/eventTypeRegistry';
+import { defaultRelationships, deriveProjections, MetricRelationship } from '../data/projectionModel';
+import { fitForecast, ForecastMethod, forecastMethodLabel, ForecastModel, sampleForecast } from '../data/forecast';
+import { formatImpactDelta, ImpactWindow, rankEventImpacts, windowAround } from '../data/impact';
+import { mergeSeries, seriesFromEvents } from '../data/eventSeries';
+import { formatTick, timeTicks } from '../data/timeTicks';
+import {
+  convertSeries,
+  localizeMetric,
+  localizeRelationships,
+  normalizeSeries,
+  UnitSystem,
+  unitSystemLabel,
+} from '../data/units';
+import { dataToJson, ImportFormat, ImportResult, seriesToCsv } from '../data/importExport';
+import { decodeViewState, encodeViewState, ViewState } from '../data/viewState';
+import { describeBucket, describeEvent, describeReading, eventDates } from '../data/describe';
+import { EventCluster, EventMark, layoutRow } from '../data/eventLayout';
+import { bisect, extent } from '../data/arrays';
+import { matchEvent, parseQuery, SearchHit } from '../data/search';
 import {
-  Pill,
-  Heart,
-  Beaker,
-  Stethoscope,
-  Activity,
-  Image as ImageIcon,
-  Syringe,
-  Brain,
-  ClipboardList,
-} from 'lucide-react';
+  Annotation,
+  AnnotationAnchor,
+  AnnotationStore,
+  anchorTime,
+  describeAnchor,
+  localAnnotationStore,
+  newAnnotationId,
+  pinnedReading,
+} from '../data/annotations';
+import { bucketLabel, DrawnPoint, RollupLevel, rollupLabel, SeriesDetail, seriesDetail } from '../data/downsample';
+import {
+  builtInPresets,
+  localPreferenceStore,
+  PreferenceStore,
+  Preset,
+  StoredPreferences,
+  TimelinePreferences,
+} from '../data/preferences';
+import { download, ExportFormat, exportView } from '../export/exportView';
+import { useContainerSize } from '../hooks/useContainerSize';
+import { useUrlViewState } from '../hooks/useUrlViewState';
+import { AnnotationList } from './AnnotationList';
+import { ChartTooltip, HoverHandle, HoverRing, TooltipAt } from './ChartTooltip';
+import { DataTable } from './DataTable';
+import { EventDetailPanel } from './EventDetailPanel';
+import { ImportDialog } from './ImportDialog';
+import { CanvasLayer, MetricCanvas } from './MetricCanvas';
+import { OverviewBrush } from './OverviewBrush';
+import { ImpactSummary } from './ImpactSummary';
+import { curveMonotoneX, curveCatmullRom, curveBasis } from '@visx/curve';
 import { Drag } from '@visx/drag';
-import { ReactZoomPanPinchRef } from 'react-zoom-pan-pinch';
 
 // helper methods -
-type Projection = {
-  metricId: MetricSeries['id'];
+export type Projection = {
+  metricId: MetricId;
   dx: number;
   dy: number;
 };
 
-const eventIcon: Record<TimelineEventType, LucideIcon> = {
-  diagnosis: ClipboardList,
-  medication: Pill,
-  lab: Beaker,
-  procedure: Syringe,
-  complaint: Brain,
-  imaging: ImageIcon,
-  vital: Activity,
-  life: Heart,
+const TIME_RANGES: TimeRange[] = ['1M', '3M', '6M', '1Y', 'ALL'];
+const DAY = 86_400_000;
+const NODE_R = 20; // point event disk
+const EVENT_SPACING = 2 * NODE_R + 4; // closest two event disks are drawn; also bounds each hit area
+const NO_IDS: ReadonlySet<string> = new Set();
+const SEARCH_COLOR = '#facc15'; // rings around events that match the search
+const NOTE_COLOR = '#f472b6'; // annotation flags
+const NOTE_H = 20; // callout height
+const ORPHANED = '(reading no longer in the record)'; // a point note whose reading is gone
+const CANVAS_POINTS = 5000; // in 'auto' mode, more visible-series points than this are painted on a canvas
+const POINT_HIT_R = 14;
+const FORECAST_METHODS = Object.keys(forecastMethodLabel) as ForecastMethod[];
+const curveCatmull = curveCatmullRom.alpha(0.5); // 0.0–1.0 tension; made once so the canvas isn't repainted each render
+
+// a chart item keyboard focus can rest on
+type ChartItem = { kind: 'event'; id: string } | { kind: 'point'; seriesId: MetricId; index: number };
+const itemKey = (it: ChartItem) => (it.kind === 'event' ? `event:${it.id}` : `point:${it.seriesId}:${it.index}`);
+
+// index of the time closest to t
+const nearestIndex = (times: number[], t: number) =>
+  times.reduce((best, x, i) => (Math.abs(x - t) < Math.abs(times[best] - t) ? i : best), 0);
+
+// projection resolved into data space (what the knob currently points at)
+export type ProjectionTarget = {
+  metricId: MetricId;
+  t: Date;
+  value: number;
+  delta: number; // vs. last recorded value
+  daysAhead: number;
 };
 
-type UnitGroup = 'lbs' | 'mmHg' | 'index100' | 'other';
-type SmoothMode = 'straight' | 'monotone' | 'catmull' | 'basis';
-
-const unitGroup: Record<MetricSeries['id'], UnitGroup> = {
-  weight: 'lbs',
-  systolic: 'mmHg',
-  diastolic: 'mmHg',
-  sleepScore: 'index100', // treat both as 0–100 index
-  stressIndex: 'index100',
-};
+export interface TimelineProps {
+  events: TimelineEvent[];
+  series: MetricSeries[];
+  profile: PatientProfile;
+  eventTypes?: EventTypeRegistry; // rows, colors, icons and labels; unregistered types get their own row
+  // filters default to each definition's defaultVisible; only the keys given here are overridden
+  initialEnabledTypes?: Partial<Record<TimelineEventType, boolean>>;
+  metrics?: MetricRegistry; // presentation for known metric ids; unknown series still render
+  seriesFromEvents?: boolean; // chart numeric lab/vital readings as series (default true)
+  initialEnabledSeries?: Partial<Record<MetricId, boolean>>;
+  initialRange?: TimeRange;
+  initialUnitSystem?: UnitSystem; // values are converted for display; series keep their stored units
+  relationships?: MetricRelationship[]; // how a projected change in one metric moves the others
+  onEventClick?: (event: TimelineEvent) => void;
+  onProjectionChange?: (target: ProjectionTarget | null) => void; // the first projection only; kept for older hosts
+  onProjectionsChange?: (targets: ProjectionTarget[]) => void;
+  onImport?: (result: ImportResult) => void; // imported data is also shown right away
+  urlState?: boolean; // mirror the view in the URL query (deep links, back/forward); off by default
+  renderMode?: 'auto' | 'svg' | 'canvas'; // how metric series are drawn; 'auto' paints large ones on a canvas
+  downsample?: boolean; // reduce dense series to the plot's resolution (default true)
+  userId?: string; // whose saved defaults and presets to use, and the author of new notes; both need one
+  preferenceStore?: PreferenceStore; // localStorage unless given
+  presets?: Preset[]; // offered alongside the user's own presets
+  recordId?: string; // whose annotations to show; the profile's MRN unless given
+  annotationStore?: AnnotationStore; // localStorage unless given
+}
 
 const bgPanel = 'bg-[#0c1220]';
 const bgStripeA = '#101a2c';
@@ -64,63 +157,52 @@ const bgStripeB = '#0b1426';
 const gridStroke = '#1f2a44';
 const axisStroke = '#2a3b5f';
 const axisLabel = '#7aa2ff';
-const neon = {
-  cyan: '#21d4fd',
-  purple: '#b721ff',
-  teal: '#12d6b0',
-  amber: '#ffb020',
-  pink: '#ff5ea7',
-  blue: '#3ba7ff',
-};
-
-const typeColors: Record<TimelineEventType, string> = {
-  diagnosis: neon.pink,
-  medication: neon.blue,
-  lab: neon.teal,
-  procedure: neon.amber,
-  complaint: '#ff7aa2',
-  imaging: neon.purple,
-  vital: neon.cyan,
-  life: '#8cff66',
-};
-
-const rowsByType: Record<TimelineEventType, number> = {
-  diagnosis: 0,
-  medication: 1,
-  lab: 2,
-  procedure: 3,
-  complaint: 4,
-  imaging: 5,
-  vital: 6,
-  life: 7,
-};
+// window a range chip shows, ending at the latest data and clamped to the earliest
+function rangeDomain(r: TimeRange, minDate: Date, maxDate: Date): [Date, Date] {
+  if (r === 'ALL') return [minDate, maxDate];
+  const end = maxDate; // anchor to latest by default
+  const start = new Date(end);
+  if (r === '1M') start.setMonth(start.getMonth() - 1);
+  if (r === '3M') start.setMonth(start.getMonth() - 3);
+  if (r === '6M') start.setMonth(start.getMonth() - 6);
+  if (r === '1Y') start.setFullYear(start.getFullYear() - 1);
+  // clamp to global min
+  if (start < minDate) return [minDate, end];
+  return [start, end];
+}
 
-const seriesColor: Record<MetricSeries['id'], string> = {
-  weight: neon.cyan,
-  systolic: neon.blue,
-  diastolic: neon.purple,
-  sleepScore: neon.teal,
-  stressIndex: neon.pink,
-};
+// interval of a duration event (end null = ongoing); null for point events
+function spanOf(e: TimelineEvent): { start: Date; end: Date | null } | null {
+  if (!e.end && !e.ongoing) return null;
+  return { start: new Date(e.timestamp), end: e.end ? new Date(e.end) : null };
+}
 
-const MIN_BY_GROUP: Partial<Record<UnitGroup, number>> = {
-  lbs: 0,
-  index100: 0,
-};
+// Greedy interval packing: overlapping spans in the same row stack into sub-lanes.
+// `lanes` is the lane count of the whole row so every bar in it gets the same height.
+function assignSubLanes(events: TimelineEvent[], rowOf: (e: TimelineEvent) => number) {
+  const byRow = new Map<number, { id: string; start: number; end: number }[]>();
+  for (const e of events) {
+    const span = spanOf(e);
+    if (!span) continue;
+    const list = byRow.get(rowOf(e)) ?? [];
+    list.push({ id: e.id, start: span.start.getTime(), end: span.end ? span.end.getTime() : Infinity });
+    byRow.set(rowOf(e), list);
+  }
 
-function useContainerSize<T extends HTMLElement>() {
-  const ref = React.useRef<T | null>(null);
-  const [size, setSize] = React.useState({ w: 0, h: 0 });
-  React.useLayoutEffect(() => {
-    if (!ref.current) return;
-    const obs = new ResizeObserver(([entry]) => {
-      const { width, height } = entry.contentRect;
-      setSize({ w: Math.round(width), h: Math.round(height) });
-    });
-    obs.observe(ref.current);
-    return () => obs.disconnect();
-  }, []);
-  return { ref, width: size.w, height: size.h };
+  const out: Record<string, { lane: number; lanes: number }> = {};
+  for (const list of byRow.values()) {
+    list.sort((a, b) => a.start - b.start);
+    const laneEnds: number[] = [];
+    const laneOf: Record<string, number> = {};
+    for (const s of list) {
+      let lane = laneEnds.findIndex((end) => end <= s.start);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = s.end;
+      laneOf[s.id] = lane;
+    }
+    for (const s of list) out[s.id] = { lane: laneOf[s.id], lanes: laneEnds.length };
+  }
+  return out;
 }
 
 // utils
@@ -140,9 +222,6 @@ const pillClasses = (active: boolean) =>
       : 'bg-[#0b1426] text-slate-300 border-[#1c2a46] hover:text-slate-100 hover:border-slate-500'
   );
 
-const allTrue = <T extends string>(rec: Record<T, boolean>) => Object.values(rec).every(Boolean);
-// const anyTrue = <T extends string>(rec: Record<T, boolean>) => Object.values(rec).some(Boolean);
-
 // Build a new record with every key set to `val`
 function setAllRecord<T extends string>(keys: T[], val: boolean): Record<T, boolean> {
   return keys.reduce(
@@ -170,91 +249,286 @@ const pillAllBlue = (active: boolean) =>
        : 'bg-[#0b1426] border-[#1c2a46] text-slate-300 hover:text-slate-100'
    }`;
 
-export const Timeline: React.FC = () => {
-  // filter state
-  const [enabledTypes, setEnabledTypes] = useState<Record<TimelineEventType, boolean>>({
-    diagnosis: true,
-    medication: true,
-    lab: true,
-    procedure: true,
-    complaint: true,
-    imaging: true,
-    vital: true,
-    life: true,
-  });
+export const Timeline: React.FC<TimelineProps> = ({
+  events: givenEvents,
+  series: givenSeries,
+  profile,
+  eventTypes = defaultEventTypeRegistry,
+  metrics = defaultMetricRegistry,
+  initialEnabledTypes,
+  initialEnabledSeries,
+  initialRange = 'ALL',
+  initialUnitSystem = 'imperial',
+  seriesFromEvents: deriveSeries = true,
+  relationships = defaultRelationships,
+  onEventClick,
+  onProjectionChange,
+  onProjectionsChange,
+  onImport,
+  urlState = false,
+  userId,
+  preferenceStore = localPreferenceStore,
+  presets = builtInPresets,
+  recordId,
+  annotationStore = localAnnotationStore,
+  renderMode = 'auto',
+  downsample = true,
+}) => {
+  // view state from a deep link, read once; it wins over the initial* props
+  const [linked] = useState(() => (urlState ? decodeViewState(window.location.search) : null));
+
+  // the user's saved defaults and presets; defaults apply to plain visits, a deep link describes the whole view
+  const loadSaved = (): StoredPreferences => (userId ? preferenceStore.load(userId) : { presets: [] });
+  const [saved, setSaved] = useState(loadSaved);
+  // another user (or store) gets their own defaults and presets; the view on screen stays as it is
+  const [savedFor, setSavedFor] = useState({ userId, preferenceStore });
+  if (savedFor.userId !== userId || savedFor.preferenceStore !== preferenceStore) {
+    setSavedFor({ userId, preferenceStore });
+    setSaved(loadSaved());
+  }
+  const [startPrefs] = useState<TimelinePreferences>(() =>
+    linked && window.location.search.length > 1 ? {} : (saved.defaults ?? {})
+  );
 
-  const [enabledSeries, setEnabledSeries] = useState<Record<MetricSeries['id'], boolean>>({
-    weight: true,
-    systolic: true,
-    diastolic: true,
-    sleepScore: true,
-    stressIndex: true,
-    // exercise per day
-    // pounds of vegetables - some diet
+  // clinicians' notes on this record; everyone sees them, their author can change them
+  const recordKey = recordId ?? profile.mrn;
+  const [annotations, setAnnotations] = useState<Annotation[]>(() => annotationStore.load(recordKey));
+  const [annotating, setAnnotating] = useState(false); // next click or drag on the chart places a note
+  const [draftSpan, setDraftSpan] = useState<[number, number] | null>(null); // x extent being dragged out
+  const [noteId, setNoteId] = useState<string | null>(null);
+  // another record (or store) shows its own notes, and new ones are saved under its key
+  const [notesFor, setNotesFor] = useState({ recordKey, annotationStore });
+  if (notesFor.recordKey !== recordKey || notesFor.annotationStore !== annotationStore) {
+    setNotesFor({ recordKey, annotationStore });
+    setAnnotations(annotationStore.load(recordKey));
+    setNoteId(null);
+    setDraftSpan(null);
+  }
+
+  // data added through the import dialog; an imported event replaces a given one with the same id
+  const [imported, setImported] = useState<{ events: TimelineEvent[]; series: MetricSeries[] }>({
+    events: [],
+    series: [],
   });
+  const [importOpen, setImportOpen] = useState(false);
+  const allEvents = useMemo(
+    () => [...new Map([...givenEvents, ...imported.events].map((e) => [e.id, e])).values()],
+    [givenEvents, imported.events]
+  );
+  const series = useMemo(() => [...givenSeries, ...imported.series], [givenSeries, imported.series]);
+
+  // resolved definition per event type (registered or fallback)
+  const typeDefs = useMemo<Record<TimelineEventType, EventTypeDefinition>>(
+    () => resolveEventTypes(eventTypes, allEvents),
+    [eventTypes, allEvents]
+  );
+
+  // filter state: only holds ids that were toggled (or given initially); the rest follow defaultVisible
+  const [enabledTypes, setEnabledTypes] = useState<Partial<Record<TimelineEventType, boolean>>>(() => ({
+    ...initialEnabledTypes,
+    ...startPrefs.types,
+    ...linked?.types,
+  }));
+  const typeOn = React.useCallback(
+    (t: TimelineEventType) => enabledTypes[t] ?? typeDefs[t]?.defaultVisible !== false,
+    [enabledTypes, typeDefs]
+  );
+
+  // given series (normalized into their registered units) plus one per analyte found in lab/vital events
+  const storedSeries = useMemo(() => {
+    const given = normalizeSeries(series, metrics);
+    return deriveSeries ? mergeSeries(given, seriesFromEvents(allEvents, metrics)) : given;
+  }, [series, allEvents, metrics, deriveSeries]);
 
-  const [smooth, setSmooth] = useState<SmoothMode>('monotone');
+  // resolved definition per series (registered or fallback), in stored units
+  const storedDefs = useMemo<Record<MetricId, MetricDefinition>>(
+    () => Object.fromEntries(storedSeries.map((s, i) => [s.id, resolveMetric(metrics, s, i)])),
+    [storedSeries, metrics]
+  );
+
+  // everything below works in display units
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(linked?.units ?? startPrefs.units ?? initialUnitSystem);
+  const metricDefs = useMemo<Record<MetricId, MetricDefinition>>(
+    () => Object.fromEntries(Object.values(storedDefs).map((d) => [d.id, localizeMetric(d, unitSystem)])),
+    [storedDefs, unitSystem]
+  );
+  const metricSeries = useMemo(
+    () => storedSeries.map((s) => convertSeries(s, metricDefs[s.id].unit)),
+    [storedSeries, metricDefs]
+  );
+  // point times (ms, ascending) per series, parsed once for culling, extents and hover lookup
+  const pointTimes = useMemo<Record<MetricId, Float64Array>>(
+    () =>
+      Object.fromEntries(metricSeries.map((s) => [s.id, Float64Array.from(s.points, (p) => new Date(p.t).getTime())])),
+    [metricSeries]
+  );
+  // [lo, hi) indices of a series' points inside a window
+  const windowIndex = React.useCallback(
+    (id: MetricId, [a, b]: [Date, Date]): [number, number] => [
+      bisect(pointTimes[id], a.getTime()),
+      bisect(pointTimes[id], b.getTime() + 1),
+    ],
+    [pointTimes]
+  );
+
+  // only holds ids the user (or initialEnabledSeries) has touched; the rest follow defaultVisible
+  const [enabledSeries, setEnabledSeries] = useState<Partial<Record<MetricId, boolean>>>(() => ({
+    ...initialEnabledSeries,
+    ...startPrefs.series,
+    ...linked?.series,
+  }));
+  const seriesOn = React.useCallback(
+    (id: MetricId) => enabledSeries[id] ?? metricDefs[id]?.defaultVisible !== false,
+    [enabledSeries, metricDefs]
+  );
+
+  const [smooth, setSmooth] = useState<SmoothMode>(linked?.smooth ?? startPrefs.smooth ?? 'monotone');
   const [panDisabled, setPanDisabled] = useState(false);
 
   const curveFactory =
     smooth === 'monotone'
       ? curveMonotoneX
       : smooth === 'catmull'
-        ? curveCatmullRom.alpha(0.5) // 0.0–1.0 tension
+        ? curveCatmull
         : smooth === 'basis'
           ? curveBasis
           : undefined; // straight segments
 
-  const typeKeys = Object.keys(rowsByType) as TimelineEventType[];
+  // pills follow swimlane order
+  const typeKeys = Object.values(typeDefs)
+    .sort((a, b) => a.row - b.row)
+    .map((d) => d.id);
   const metricKeys = metricSeries.map((s) => s.id);
 
-  const allTypesOn = allTrue(enabledTypes);
-  const allMetricsOn = allTrue(enabledSeries);
+  const allTypesOn = typeKeys.every(typeOn);
+  const allMetricsOn = metricKeys.every(seriesOn);
 
-  const events = useMemo(() => mockPatientEvents.filter((e) => enabledTypes[e.type]), [enabledTypes]);
+  const events = useMemo(() => allEvents.filter((e) => typeOn(e.type)), [allEvents, typeOn]);
 
-  // time range + scale
-  const allTimes = useMemo(() => mockPatientEvents.map((e) => new Date(e.timestamp).getTime()), []);
+  // time range + scale (fall back to metric points, then "now", so an empty record still gets a scale)
+  const [minT, maxT] = useMemo(() => {
+    const [lo, hi] = extent(
+      allEvents.flatMap((e) =>
+        e.end ? [new Date(e.timestamp).getTime(), new Date(e.end).getTime()] : [new Date(e.timestamp).getTime()]
+      )
+    );
+    if (lo <= hi) return [lo, hi];
+    const ends = Object.values(pointTimes).flatMap((ts) => (ts.length ? [ts[0], ts[ts.length - 1]] : []));
+    return ends.length ? extent(ends) : [Date.now(), Date.now()];
+  }, [allEvents, pointTimes]);
 
-  const minDate = new Date(Math.min(...allTimes));
-  const maxDate = new Date(Math.max(...allTimes));
+  const minDate = useMemo(() => new Date(minT), [minT]);
+  const maxDate = useMemo(() => new Date(maxT), [maxT]);
 
   // view range chips: '1M' | '3M' | '6M' | '1Y' | 'ALL'
-  const [range, setRange] = useState<'1M' | '3M' | '6M' | '1Y' | 'ALL'>('ALL');
-
-  const viewDomain = useMemo<[Date, Date]>(() => {
-    if (range === 'ALL') return [minDate, maxDate];
-    const end = maxDate; // anchor to latest by default
-    const start = new Date(end);
-    if (range === '1M') start.setMonth(start.getMonth() - 1);
-    if (range === '3M') start.setMonth(start.getMonth() - 3);
-    if (range === '6M') start.setMonth(start.getMonth() - 6);
-    if (range === '1Y') start.setFullYear(start.getFullYear() - 1);
-    // clamp to global min
-    if (start < minDate) return [minDate, end];
-    return [start, end];
-  }, [range, minDate, maxDate]);
-
-  const [projection, setProjection] = useState<Projection | null>(null);
-
-  const rows = Math.max(...Object.values(rowsByType)) + 1;
+  const [range, setRange] = useState<TimeRange>(linked?.range ?? startPrefs.range ?? initialRange);
+  // window set by zoom/pan or the overview brush; overrides the chips until one is clicked
+  const [customDomain, setCustomDomain] = useState<[Date, Date] | null>(linked?.domain ?? null);
+
+  // the same window object across renders, so memos keyed on it only rerun when the view really moves
+  const viewDomain = useMemo(
+    () => customDomain ?? rangeDomain(range, minDate, maxDate),
+    [customDomain, range, minDate, maxDate]
+  );
+
+  // a chip is lit whenever the current window matches its range, however the window was reached
+  const activeRange = TIME_RANGES.find((r) => {
+    const [a, b] = rangeDomain(r, minDate, maxDate);
+    return (
+      Math.abs(a.getTime() - viewDomain[0].getTime()) < DAY && Math.abs(b.getTime() - viewDomain[1].getTime()) < DAY
+    );
+  });
+
+  // clamp a window into the record (at least a day wide) and make it the view
+  const setViewWindow = (start: number, end: number) => {
+    const lo = minDate.getTime();
+    const hi = maxDate.getTime();
+    if (hi - lo < DAY) return;
+    const span = Math.min(hi - lo, Math.max(DAY, end - start));
+    const s = Math.min(hi - span, Math.max(lo, start));
+    setCustomDomain([new Date(s), new Date(s + span)]);
+  };
+
+  // at most one projection per metric, each with its own knob
+  const [projections, setProjections] = useState<Projection[]>([]);
+
+  const rows = Math.max(0, ...Object.values(typeDefs).map((d) => d.row)) + 1;
+  const subLanes = useMemo(() => assignSubLanes(events, (e) => typeDefs[e.type].row), [events, typeDefs]);
   const rowHeight = 36;
   const axisHeight = 40;
   const paddingLeft = 70;
   const basePaddingRight = 40;
   const rightPad = basePaddingRight;
 
-  const baseContentWidth = 2200;
   const topPad = 70;
 
   const [runwayPx, setRunwayPx] = useState(800); // initial future area
-  const totalWidth = baseContentWidth + (projection ? Math.max(600, runwayPx) : 0);
+  // automatic trend forecast per metric (fitted on the visible window)
+  const [forecasts, setForecasts] = useState<Partial<Record<MetricId, ForecastMethod>>>(linked?.forecasts ?? {});
+  const runwayOn = projections.length > 0 || Object.values(forecasts).some(Boolean);
+
+  // the record fills the viewport; the runway takes up to 40% of it and scrolls beyond that
+  const { ref: viewportRef, width: viewportW, height: viewportH } = useContainerSize<HTMLDivElement>();
+  const fitWidth = viewportW || 1200;
+  const runwayWidth = runwayOn ? Math.max(300, runwayPx) : 0;
+  const baseContentWidth = Math.max(600, fitWidth - Math.min(runwayWidth, Math.round(fitWidth * 0.4)));
+  const totalWidth = baseContentWidth + runwayWidth;
 
   const chartInset = 30;
   const baseRangeRight = baseContentWidth - rightPad;
 
-  const [hover, setHover] = useState<{ x: number; y: number; content: React.ReactNode } | null>(null);
-  const { ref: viewportRef, width: viewportW, height: viewportH } = useContainerSize<HTMLDivElement>();
+  const metricsClipId = `metrics-clip-${React.useId().replace(/:/g, '')}`;
+  // the mouse tooltip keeps its own state, so moving over the chart doesn't re-render the chart
+  const tooltipRef = useRef<HoverHandle<TooltipAt>>(null);
+  const setHover = (tip: TooltipAt | null) => tooltipRef.current?.show(tip);
+
+  // event detail panel: selection + prev/next over the visible events in time order
+  const [selectedId, setSelectedId] = useState<string | null>(linked?.event ?? null);
+  const orderedEvents = useMemo(
+    () => [...events].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+    [events]
+  );
+  const selectedIdx = orderedEvents.findIndex((e) => e.id === selectedId);
+  const selectedEvent = selectedIdx >= 0 ? orderedEvents[selectedIdx] : null;
+  const previousOfType = useMemo(() => {
+    if (!selectedEvent) return null;
+    const t = new Date(selectedEvent.timestamp).getTime();
+    return allEvents
+      .filter((e) => e.type === selectedEvent.type && new Date(e.timestamp).getTime() < t)
+      .reduce<TimelineEvent | null>(
+        (best, e) => (!best || new Date(e.timestamp) > new Date(best.timestamp) ? e : best),
+        null
+      );
+  }, [allEvents, selectedEvent]);
+
+  const selectEvent = (e: TimelineEvent) => {
+    setSelectedId(e.id);
+    onEventClick?.(e);
+  };
+
+  // search over labels, types and meta values (codes, doses...); results are the matches whose type is shown
+  const [query, setQuery] = useState('');
+  const [matchId, setMatchId] = useState<string | null>(null); // result last jumped to
+  const searchTerms = useMemo(() => parseQuery(query), [query]);
+  const matches = useMemo(() => {
+    if (!searchTerms.length) return null;
+    const hits = new Map<string, SearchHit[]>();
+    for (const e of allEvents) {
+      const found = matchEvent(e, typeDefs[e.type], searchTerms);
+      if (found) hits.set(e.id, found);
+    }
+    return hits;
+  }, [allEvents, typeDefs, searchTerms]);
+  const searchResults = useMemo(
+    () => (matches ? orderedEvents.filter((e) => matches.has(e.id)) : []),
+    [matches, orderedEvents]
+  );
+  const matchPos = searchResults.findIndex((e) => e.id === matchId);
+  const hiddenMatchTypes = useMemo(
+    () => [...new Set(allEvents.filter((e) => matches?.has(e.id) && !typeOn(e.type)).map((e) => e.type))],
+    [allEvents, matches, typeOn]
+  );
+  const dimmed = (e: TimelineEvent) => !!matches && !matches.has(e.id);
   const chartH = viewportH || rows * rowHeight + 140 + axisHeight + topPad;
 
   const metricsHeight = Math.max(
@@ -262,17 +536,51 @@ export const Timeline: React.FC = () => {
     Math.round(chartH * 0.45)
   );
 
-  const effectiveDomain: [Date, Date] = useMemo(() => viewDomain, [viewDomain, projection]);
-
   // x-scale
   const xScale = useMemo(
-    () => scaleTime<number>({ domain: effectiveDomain, range: [paddingLeft + chartInset, baseRangeRight] }),
-    [effectiveDomain, baseRangeRight, paddingLeft]
+    () => scaleTime<number>({ domain: viewDomain, range: [paddingLeft + chartInset, baseRangeRight] }),
+    [viewDomain, baseRangeRight, paddingLeft]
+  );
+  // point events per swimlane row: coincident ones become count badges, near misses are nudged apart.
+  // Expanded badges stay open while panning and fold again on zoom.
+  const [expansion, setExpansion] = useState<{ span: number; ids: ReadonlySet<string> }>({ span: 0, ids: NO_IDS });
+  const viewSpan = viewDomain[1].getTime() - viewDomain[0].getTime();
+  const expandedIds = expansion.span === viewSpan ? expansion.ids : NO_IDS;
+  const markByEvent = useMemo(() => {
+    const byRow = new Map<number, { event: TimelineEvent; x: number }[]>();
+    for (const e of events) {
+      if (spanOf(e)) continue;
+      const row = typeDefs[e.type].row;
+      if (!byRow.has(row)) byRow.set(row, []);
+      byRow.get(row)!.push({ event: e, x: xScale(new Date(e.timestamp)) });
+    }
+    const out: Record<string, EventMark> = {};
+    for (const items of byRow.values()) {
+      const marks = layoutRow(items, {
+        spacing: EVENT_SPACING,
+        mergeGap: NODE_R,
+        maxNudge: EVENT_SPACING,
+        expanded: expandedIds,
+      });
+      for (const m of marks) for (const e of m.kind === 'cluster' ? m.events : [m.event]) out[e.id] = m;
+    }
+    return out;
+  }, [events, typeDefs, xScale, expandedIds]);
+  const expandCluster = (c: EventCluster) =>
+    setExpansion({ span: viewSpan, ids: new Set([...expandedIds, ...c.events.map((e) => e.id)]) });
+
+  // years → months → weeks → days as the window narrows
+  const axisTicks = timeTicks(viewDomain, baseRangeRight - (paddingLeft + chartInset));
+
+  // clinical reference ranges resolved for this patient
+  const rangesById = useMemo<Record<MetricId, ReferenceRange[]>>(
+    () => Object.fromEntries(metricSeries.map((s) => [s.id, rangesFor(metricDefs[s.id], profile)])),
+    [metricSeries, metricDefs, profile]
   );
 
-  const filteredSeries = metricSeries.filter((metric) => enabledSeries[metric.id]); // TODO; enabledMetric
-  const activeMetricIds = filteredSeries.map((s) => s.id);
-  const activeGroups = new Set(activeMetricIds.map((id) => unitGroup[id]));
+  const filteredSeries = useMemo(() => metricSeries.filter((metric) => seriesOn(metric.id)), [metricSeries, seriesOn]);
+  const activeMetricIds = useMemo(() => filteredSeries.map((s) => s.id), [filteredSeries]);
+  const activeGroups = new Set(activeMetricIds.map((id) => metricDefs[id].unitGroup));
 
   // SINGLE = exactly 1 metric
   // GROUP  = 2+ metrics but all in same unit group
@@ -282,7 +590,7 @@ export const Timeline: React.FC = () => {
   const autoScaleMode: AutoMode =
     activeMetricIds.length === 1 ? 'SINGLE' : activeGroups.size === 1 ? 'GROUP' : 'NORMALIZED';
 
-  const activeGroup: UnitGroup | null =
+  const activeGroup: string | null =
     autoScaleMode === 'SINGLE' || autoScaleMode === 'GROUP' ? ([...activeGroups][0] ?? null) : null;
 
   const ySingle = useMemo(() => {
@@ -290,57 +598,63 @@ export const Timeline: React.FC = () => {
     const id = activeMetricIds[0];
     const series = metricSeries.find((s) => s.id === id);
     if (!series) return null;
-    const vals = series.points.map((p) => p.value);
-    const min = Math.min(...vals);
-    const max = Math.max(...vals);
+    const [min, max] = extent(series.points.map((p) => p.value));
     const pad = (max - min) * 0.1 || 10;
 
-    const g = unitGroup[id]; // e.g., 'lbs'
-    const hardMin = MIN_BY_GROUP[g] ?? null;
+    const hardMin = metricDefs[id].hardMin ?? null; // e.g. weight -> 0
     const lower = hardMin != null ? Math.min(min - pad, hardMin) : min - pad;
 
     return scaleLinear<number>({
       domain: [lower, max + pad],
       range: [topPad + rowHeight * rows + metricsHeight - 10, topPad + rowHeight * rows + 10],
     });
-  }, [autoScaleMode, activeMetricIds, rows, metricsHeight]);
+  }, [autoScaleMode, activeMetricIds, metricSeries, metricDefs, rows, metricsHeight]);
 
   const yGroup = useMemo(() => {
     if (autoScaleMode !== 'GROUP' || !activeGroup) return null;
 
-    // fixed domain for index100
-    if (activeGroup === 'index100') {
+    // fixed domain groups (e.g. 0–100 index)
+    const fixedDomain = unitGroupAxis[activeGroup]?.domain;
+    if (fixedDomain) {
       return scaleLinear<number>({
-        domain: [0, 100],
+        domain: fixedDomain,
         range: [topPad + rowHeight * rows + metricsHeight - 10, topPad + rowHeight * rows + 10],
       });
     }
 
     // otherwise compute min/max across the active metrics (over visible domain for responsiveness)
-    const [vd0, vd1] = viewDomain;
-    const toNum = (d: Date) => d.getTime();
     const vals: number[] = [];
+    const hardMins: number[] = [];
     for (const s of metricSeries) {
       if (!activeMetricIds.includes(s.id)) continue;
-      if (unitGroup[s.id] !== activeGroup) continue;
-      for (const p of s.points) {
-        const t = new Date(p.t);
-        if (toNum(t) >= toNum(vd0) && toNum(t) <= toNum(vd1)) vals.push(p.value);
-      }
+      const def = metricDefs[s.id];
+      if (def.unitGroup !== activeGroup) continue;
+      if (def.hardMin != null) hardMins.push(def.hardMin);
+      const [lo, hi] = windowIndex(s.id, viewDomain);
+      for (let i = lo; i < hi; i++) vals.push(s.points[i].value);
     }
     if (!vals.length) return null;
-    const min = Math.min(...vals);
-    const max = Math.max(...vals);
+    const [min, max] = extent(vals);
     const pad = (max - min) * 0.1 || 10;
 
-    const hardMin = MIN_BY_GROUP[activeGroup] ?? null; // 'lbs' -> 0
+    const hardMin = hardMins.length ? extent(hardMins)[0] : null; // weight -> 0
     const lower = hardMin != null ? Math.min(min - pad, hardMin) : min - pad;
 
     return scaleLinear<number>({
       domain: [lower, max + pad],
       range: [topPad + rowHeight * rows + metricsHeight - 10, topPad + rowHeight * rows + 10],
     });
-  }, [autoScaleMode, activeGroup, activeMetricIds, rows, metricsHeight, viewDomain]);
+  }, [
+    autoScaleMode,
+    activeGroup,
+    activeMetricIds,
+    metricSeries,
+    metricDefs,
+    rows,
+    metricsHeight,
+    viewDomain,
+    windowIndex,
+  ]);
 
   // NORMALIZED overlay: shared 0–100
   const yNormalized = useMemo(() => {
@@ -351,43 +665,34 @@ export const Timeline: React.FC = () => {
 
   // Per-series visible extents for normalization
   const visibleExtents = useMemo(() => {
-    const [vd0, vd1] = viewDomain;
-    const toNum = (d: Date) => d.getTime();
     return Object.fromEntries(
       metricSeries.map((s) => {
-        const pts = s.points.filter((p) => {
-          const t = new Date(p.t).getTime();
-          return t >= toNum(vd0) && t <= toNum(vd1);
-        });
-        if (!pts.length) return [s.id, { min: 0, max: 1 }];
-        const vals = pts.map((p) => p.value);
-        const min = Math.min(...vals);
-        const max = Math.max(...vals);
+        const [lo, hi] = windowIndex(s.id, viewDomain);
+        if (lo >= hi) return [s.id, { min: 0, max: 1 }];
+        const [min, max] = extent(s.points.slice(lo, hi).map((p) => p.value));
         return [s.id, { min, max: max === min ? min + 1 : max }];
       })
     );
-  }, [viewDomain]);
+  }, [metricSeries, viewDomain, windowIndex]);
 
-  const initialScale = useMemo(() => Math.min(1, (viewportW || 1) / (baseContentWidth + 600)), [viewportW]);
-
-  // helper to clamp tooltip
   const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
-  const tooltipOffset = 12;
 
   // convenience
-  const lastPointOf = (id: MetricSeries['id']) => {
-    const s = metricSeries.find((m) => m.id === id);
-    if (!s) return null;
-    const last = s.points[s.points.length - 1];
-    return { t: new Date(last.t), v: last.value };
-  };
+  const lastPointOf = React.useCallback(
+    (id: MetricId) => {
+      const s = metricSeries.find((m) => m.id === id);
+      if (!s || !s.points.length) return null;
+      const last = s.points[s.points.length - 1];
+      return { t: new Date(last.t), v: last.value };
+    },
+    [metricSeries]
+  );
 
-  const twRef = useRef<ReactZoomPanPinchRef | null>(null);
   const svgRef = useRef<SVGSVGElement | null>(null);
 
   // rAF throttle for buttery updates
   const rafRef = useRef<number | null>(null);
-  const pendingRef = useRef<{ dx: number; dy: number } | null>(null);
+  const pendingRef = useRef<Projection | null>(null);
   React.useEffect(
     () => () => {
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
@@ -404,62 +709,140 @@ export const Timeline: React.FC = () => {
     return { x, y };
   }
 
-  // Normalize mouse/touch to clientX/clientY
-  function getClientXY(evt: any) {
-    if (evt?.touches?.[0]) {
-      const t = evt.touches[0];
-      return { clientX: t.clientX, clientY: t.clientY };
-    }
-    return { clientX: evt?.clientX ?? 0, clientY: evt?.clientY ?? 0 };
+  // zoom and pan change the x domain itself, so icons and text keep their size
+  const plotLeft = paddingLeft + chartInset;
+  function zoomAt(factor: number, contentX = (plotLeft + baseRangeRight) / 2) {
+    const [d0, d1] = [viewDomain[0].getTime(), viewDomain[1].getTime()];
+    const anchor = xScale.invert(clamp(contentX, plotLeft, baseRangeRight)).getTime();
+    setViewWindow(anchor - (anchor - d0) * factor, anchor + (d1 - anchor) * factor);
+  }
+  function panBy(dxPx: number) {
+    const [d0, d1] = [viewDomain[0].getTime(), viewDomain[1].getTime()];
+    const msPerPx = (d1 - d0) / Math.max(1, baseRangeRight - plotLeft);
+    setViewWindow(d0 - dxPx * msPerPx, d1 - dxPx * msPerPx);
   }
 
-  const projectionReadout = useMemo(() => {
-    if (!projection) return null;
-
-    const id: MetricSeries['id'] = projection.metricId; // "weight"
-    const anchor = lastPointOf(id);
-    if (!anchor) return null;
-
-    // anchor pixel coords
-    const x1 = xScale(anchor.t);
-
-    // helper: pixel->ms using the current visible domain and base range
-    const rangePx = baseRangeRight - (paddingLeft + chartInset);
-    const domainMs = viewDomain[1].getTime() - viewDomain[0].getTime();
-    const msPerPx = domainMs / Math.max(1, rangePx);
-
-    // project time: add dx * msPerPx to the anchor *time*
-    const futureTs = new Date(anchor.t.getTime() + projection.dx * msPerPx);
-
-    // we render y with: yEnd = y1 - projection.dy (positive dy = up)
-    // recover y1 (anchor y) with the same scale mode
-    const y1 = (() => {
-      if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(anchor.v);
-      if (autoScaleMode === 'GROUP' && yGroup) return yGroup(anchor.v);
-      const { min, max } = visibleExtents[id];
-      const pct = ((anchor.v - min) / (max - min)) * 100;
-      return yNormalized(pct);
-    })();
-
-    const yEnd = y1 - projection.dy;
+  // wheel needs a non-passive listener to keep the page from scrolling
+  const zoomAtRef = useRef(zoomAt);
+  zoomAtRef.current = zoomAt;
+  React.useEffect(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    const onWheel = (ev: WheelEvent) => {
+      if (Math.abs(ev.deltaX) > Math.abs(ev.deltaY)) return; // horizontal scroll reaches the runway
+      ev.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomAtRef.current(Math.exp(ev.deltaY * 0.0015), ev.clientX - rect.left);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
 
-    // invert yEnd -> value (lbs)
-    const toValueFromY = (yPx: number) => {
-      if (autoScaleMode === 'SINGLE' && ySingle) return ySingle.invert(yPx);
-      if (autoScaleMode === 'GROUP' && yGroup) return yGroup.invert(yPx);
-      const { min, max } = visibleExtents[id];
-      const pct = (yNormalized.range()[0] - yPx) / (yNormalized.range()[0] - yNormalized.range()[1]); // 0..1
-      return min + pct * (max - min);
+  // one pointer pans, two pinch-zoom; projection knobs opt out with data-no-pan
+  const pointersRef = useRef(new Map<number, number>()); // pointerId -> last clientX
+  const onChartPointerDown = (ev: React.PointerEvent<SVGSVGElement>) => {
+    if (annotating && !(ev.target as Element).closest('[data-no-pan]')) return startAnnotation(ev);
+    if (panDisabled || (ev.target as Element).closest('[data-no-pan]')) return;
+    const pointers = pointersRef.current;
+    pointers.set(ev.pointerId, ev.clientX);
+    if (pointers.size > 1) return;
+
+    const rect = ev.currentTarget.getBoundingClientRect();
+    let moved = false;
+    const onMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      const prev = new Map(pointers);
+      pointers.set(e.pointerId, e.clientX);
+      if (pointers.size === 2) {
+        const [a0, b0] = [...prev.values()];
+        const [a1, b1] = [...pointers.values()];
+        const d0 = Math.abs(a0 - b0);
+        const d1 = Math.abs(a1 - b1);
+        if (d0 > 0 && d1 > 0) zoomAtRef.current(d0 / d1, (a1 + b1) / 2 - rect.left);
+        return;
+      }
+      const dx = e.clientX - prev.get(e.pointerId)!;
+      if (!moved && Math.abs(e.clientX - ev.clientX) < 3) {
+        pointers.set(e.pointerId, prev.get(e.pointerId)!);
+        return;
+      }
+      moved = true;
+      panByRef.current(dx);
+    };
+    const onUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (pointers.size) return;
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
     };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+  };
+  const panByRef = useRef(panBy);
+  panByRef.current = panBy;
 
-    const vFuture = toValueFromY(yEnd);
-    const delta = vFuture - anchor.v;
-    const daysAhead = Math.round((projection.dx * msPerPx) / 86_400_000);
+  // Normalize mouse/touch to clientX/clientY
+  function getClientXY(evt: MouseEvent | TouchEvent | React.MouseEvent | React.TouchEvent) {
+    if ('touches' in evt) {
+      const t = evt.touches[0] ?? evt.changedTouches[0];
+      return { clientX: t?.clientX ?? 0, clientY: t?.clientY ?? 0 };
+    }
+    return { clientX: evt.clientX, clientY: evt.clientY };
+  }
 
-    return { t: futureTs, v: vFuture, delta, daysAhead };
+  const projectionTargets = useMemo(() => {
+    const readout = (projection: Projection): ProjectionTarget | null => {
+      const id: MetricId = projection.metricId; // "weight"
+      const anchor = lastPointOf(id);
+      if (!anchor) return null;
+
+      // helper: pixel->ms using the current visible domain and base range
+      const rangePx = baseRangeRight - (paddingLeft + chartInset);
+      const domainMs = viewDomain[1].getTime() - viewDomain[0].getTime();
+      const msPerPx = domainMs / Math.max(1, rangePx);
+
+      // project time: add dx * msPerPx to the anchor *time*
+      const futureTs = new Date(anchor.t.getTime() + projection.dx * msPerPx);
+
+      // we render y with: yEnd = y1 - projection.dy (positive dy = up)
+      // recover y1 (anchor y) with the same scale mode
+      const y1 = (() => {
+        if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(anchor.v);
+        if (autoScaleMode === 'GROUP' && yGroup) return yGroup(anchor.v);
+        const { min, max } = visibleExtents[id];
+        const pct = ((anchor.v - min) / (max - min)) * 100;
+        return yNormalized(pct);
+      })();
+
+      const yEnd = y1 - projection.dy;
+
+      // invert yEnd -> value (lbs)
+      const toValueFromY = (yPx: number) => {
+        if (autoScaleMode === 'SINGLE' && ySingle) return ySingle.invert(yPx);
+        if (autoScaleMode === 'GROUP' && yGroup) return yGroup.invert(yPx);
+        const { min, max } = visibleExtents[id];
+        const pct = (yNormalized.range()[0] - yPx) / (yNormalized.range()[0] - yNormalized.range()[1]); // 0..1
+        return min + pct * (max - min);
+      };
+
+      const vFuture = toValueFromY(yEnd);
+      const delta = vFuture - anchor.v;
+      const daysAhead = Math.round((projection.dx * msPerPx) / 86_400_000);
+
+      return { metricId: id, t: futureTs, value: vFuture, delta, daysAhead };
+    };
+    // a hidden metric has no y-scale of its own; reading it off the visible metrics' scale would be wrong
+    return projections
+      .filter((p) => seriesOn(p.metricId))
+      .map(readout)
+      .filter((r): r is ProjectionTarget => r != null);
   }, [
-    projection,
-    xScale,
+    projections,
+    seriesOn,
+    lastPointOf,
+    autoScaleMode,
     ySingle,
     yGroup,
     yNormalized,
@@ -470,16 +853,204 @@ export const Timeline: React.FC = () => {
     chartInset,
   ]);
 
+  // keep the latest callbacks without re-running the effect when the parent re-renders
+  const onProjectionChangeRef = useRef(onProjectionChange);
+  onProjectionChangeRef.current = onProjectionChange;
+  const onProjectionsChangeRef = useRef(onProjectionsChange);
+  onProjectionsChangeRef.current = onProjectionsChange;
+  React.useEffect(() => {
+    onProjectionsChangeRef.current?.(projectionTargets);
+    onProjectionChangeRef.current?.(projectionTargets[0] ?? null);
+  }, [projectionTargets]);
+
+  const forecastModels = useMemo(() => {
+    const out: Record<MetricId, ForecastModel> = {};
+    for (const s of metricSeries) {
+      const method = forecasts[s.id];
+      if (!method) continue;
+      const [lo, hi] = windowIndex(s.id, viewDomain);
+      const model = fitForecast(s.points.slice(lo, hi), method);
+      if (model) out[s.id] = model;
+    }
+    return out;
+  }, [metricSeries, forecasts, viewDomain, windowIndex]);
+
+  // event–metric impact analysis over the visible events and metrics
+  const [impactOn, setImpactOn] = useState(linked?.impact ?? false);
+  const [tableOn, setTableOn] = useState(false);
+  const [impactWindow, setImpactWindow] = useState<ImpactWindow>({ beforeDays: 180, afterDays: 180 });
+  const impacts = useMemo(
+    () => (impactOn ? rankEventImpacts(events, filteredSeries, impactWindow) : []),
+    [impactOn, events, filteredSeries, impactWindow]
+  );
+  const impactById = useMemo(() => Object.fromEntries(impacts.map((i) => [i.event.id, i])), [impacts]);
+  const [hoveredEventId, setHoveredEventId] = useState<string | null>(null);
+
+  // export the view as it stands: filters, range and projections included
+  const [exportDpi, setExportDpi] = useState(150);
+  const [exportError, setExportError] = useState<string | null>(null); // shown by the export controls
+  const exportAs = (fmt: ExportFormat) => {
+    if (!svgRef.current) return;
+    setExportError(null);
+    exportView(
+      {
+        svg: svgRef.current,
+        profile,
+        domain: viewDomain,
+        eventTypes: typeKeys.filter(typeOn).map((t) => ({ label: typeDefs[t].label, color: typeDefs[t].color })),
+        metrics: filteredSeries.map((s) => {
+          const { label, unit, color } = metricDefs[s.id];
+          return { label: unit ? `${label} (${unit})` : label, color };
+        }),
+      },
+      fmt,
+      exportDpi
+    ).catch((err) => setExportError(err instanceof Error ? err.message : String(err)));
+  };
+
+  // the filtered data behind the view, in the same formats the import dialog reads
+  const exportData = (fmt: ImportFormat) => {
+    const name = `timeline-data-${profile.mrn}-${format(new Date(), 'yyyy-MM-dd')}.${fmt}`;
+    if (fmt === 'csv') download(new Blob([seriesToCsv(filteredSeries, viewDomain)], { type: 'text/csv' }), name);
+    else download(new Blob([dataToJson(events, filteredSeries, viewDomain)], { type: 'application/json' }), name);
+  };
+
+  const commitImport = (result: ImportResult) => {
+    setImported((prev) => ({
+      events: [...prev.events, ...result.events],
+      series: [...prev.series, ...result.series],
+    }));
+    setImportOpen(false);
+    onImport?.(result);
+  };
+
+  // what-if: dependent metrics follow the user-set projections
+  const shownRelationships = useMemo(
+    () => localizeRelationships(relationships, storedDefs, metricDefs),
+    [relationships, storedDefs, metricDefs]
+  );
+  const derivedProjections = useMemo(
+    () => deriveProjections(projectionTargets, shownRelationships),
+    [projectionTargets, shownRelationships]
+  );
+
+  const addProjection = (metricId: MetricId) => {
+    if (!lastPointOf(metricId)) return;
+    setProjections((prev) =>
+      prev.some((p) => p.metricId === metricId) ? prev : [...prev, { metricId, dx: 30, dy: 50 }]
+    );
+    setRunwayPx((r) => Math.max(r, 600, 300 + 200));
+  };
+  const removeProjection = (metricId: MetricId) =>
+    setProjections((prev) => prev.filter((p) => p.metricId !== metricId));
+
   function dateFromDx(dxPx: number, anchorDate: Date) {
-    const [r0, r1] = (xScale as any).range();
-    const spanPx = (r1 as number) - (r0 as number);
+    const [r0, r1] = xScale.range();
+    const spanPx = r1 - r0;
     const spanMs = viewDomain[1].getTime() - viewDomain[0].getTime();
     const msPerPx = spanMs / spanPx;
     return new Date(anchorDate.getTime() + dxPx * msPerPx);
   }
 
-  // Invert the y-value back to the metric value using the active scale mode
-  function valueFromY(y: number, id: MetricSeries['id']) {
+  const eventTooltip = (e: TimelineEvent) => {
+    const span = spanOf(e);
+    return (
+      <div>
+        <div className="font-semibold">{e.label}</div>
+        <div className="opacity-80">
+          {span
+            ? `${format(span.start, 'PP')} – ${span.end ? format(span.end, 'PP') : 'ongoing'}`
+            : format(new Date(e.timestamp), 'PP p')}
+        </div>
+        {e.segments?.map((sg) => (
+          <div key={sg.start} className="opacity-80">
+            {format(new Date(sg.start), 'PP')}: {sg.label}
+          </div>
+        ))}
+        {e.meta && (
+          <pre className="mt-1 text-[10px] text-slate-300/80 whitespace-pre-wrap">
+            {JSON.stringify(e.meta, null, 2)}
+          </pre>
+        )}
+        {impactById[e.id] && (
+          <div className="mt-1 border-t border-slate-700 pt-1">
+            <div className="opacity-80">
+              Impact ({impactWindow.beforeDays}d before → {impactWindow.afterDays}d after)
+            </div>
+            {impactById[e.id].metrics.map((m) => (
+              <div key={m.metricId}>
+                <span style={{ color: metricDefs[m.metricId]?.color }}>{metricDefs[m.metricId]?.label}</span>:{' '}
+                {formatImpactDelta(m, metricDefs[m.metricId])}
+                {m.before != null && m.after != null && (
+                  <span className="opacity-70">
+                    {' '}
+                    ({m.before.toFixed(1)} → {m.after.toFixed(1)})
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const pointTooltip = (s: MetricSeries, p: MetricPoint) => {
+    const def = metricDefs[s.id];
+    const range = classifyValue(rangesById[s.id], p.value);
+    const outOfRange = !!range && range.severity !== 'normal';
+    let extra: string | null = null;
+    if (autoScaleMode === 'NORMALIZED') {
+      const { min, max } = visibleExtents[s.id];
+      const norm = ((p.value - min) / (max - min)) * 100;
+      extra = ` • ${norm.toFixed(0)}%`;
+    }
+    return (
+      <div>
+        <div className="font-semibold">{def.label}</div>
+        <div className="opacity-80">{format(new Date(p.t), 'PP p')}</div>
+        <div>
+          {p.value}
+          {def.unit ? ` ${def.unit}` : ''}
+          {extra}
+        </div>
+        {range && (
+          <div style={{ color: severityColor[range.severity] }}>
+            {outOfRange ? `Out of range: ${range.label}` : `In range: ${range.label}`} ({formatRange(range)}
+            {def.unit ? ` ${def.unit}` : ''})
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const clusterTooltip = (c: EventCluster) => (
+    <div>
+      <div className="font-semibold">
+        {c.events.length} {typeDefs[c.events[0].type].label.toLowerCase()} events
+      </div>
+      {c.events.slice(0, 8).map((e) => (
+        <div key={e.id} className="opacity-80">
+          {format(new Date(e.timestamp), 'PP')}: {e.label}
+        </div>
+      ))}
+      {c.events.length > 8 && <div className="opacity-60">and {c.events.length - 8} more</div>}
+      <div className="mt-1 opacity-60">Click or zoom in to expand</div>
+    </div>
+  );
+
+  // y pixel for a metric value, using the active scale mode
+  const yOf = React.useCallback(
+    (id: MetricId, val: number) => {
+      if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(val);
+      if (autoScaleMode === 'GROUP' && yGroup) return yGroup(val);
+      const { min, max } = visibleExtents[id];
+      return yNormalized(((val - min) / (max - min)) * 100);
+    },
+    [autoScaleMode, ySingle, yGroup, yNormalized, visibleExtents]
+  );
+
+  function valueFromY(y: number, id: MetricId) {
     if (autoScaleMode === 'SINGLE' && ySingle) return ySingle.invert(y);
     if (autoScaleMode === 'GROUP' && yGroup) return yGroup.invert(y);
     // NORMALIZED: yNormalized is 0–100, then map back using visibleExtents
@@ -488,6 +1059,458 @@ export const Timeline: React.FC = () => {
     return min + (pct / 100) * (max - min);
   }
 
+  // level of detail: dense windows are reduced to the plot's resolution (an LTTB subset, or daily,
+  // weekly or monthly min/max/mean rollups), re-chosen per series whenever the window changes
+  const plotWidth = baseRangeRight - (paddingLeft + chartInset);
+  const [v0, v1] = [viewDomain[0].getTime(), viewDomain[1].getTime()];
+  const details = useMemo<Record<MetricId, SeriesDetail>>(
+    () =>
+      Object.fromEntries(
+        filteredSeries.map((s) => {
+          // the window plus one reading either side, so lines run off the edges
+          const [lo, hi] = windowIndex(s.id, [new Date(v0), new Date(v1)]);
+          const [from, to] = [Math.max(0, lo - 1), Math.min(s.points.length, hi + 1)];
+          const width = downsample ? plotWidth : Infinity;
+          return [s.id, seriesDetail(pointTimes[s.id], s.points, from, to, v1 - v0, width)];
+        })
+      ),
+    [filteredSeries, pointTimes, windowIndex, v0, v1, plotWidth, downsample]
+  );
+  // rollups are flagged by their worst extreme, so a single high reading isn't averaged away
+  const drawnRange = React.useCallback(
+    (id: MetricId, dp: DrawnPoint) => {
+      const hi = classifyValue(rangesById[id], dp.max ?? dp.value);
+      return hi && hi.severity !== 'normal' ? hi : classifyValue(rangesById[id], dp.min ?? dp.value);
+    },
+    [rangesById]
+  );
+
+  const drawnTooltip = (s: MetricSeries, dp: DrawnPoint) => {
+    const { level, stride } = details[s.id];
+    if (dp.index != null) {
+      return (
+        <div>
+          {pointTooltip(s, s.points[dp.index])}
+          {level === 'lttb' && (
+            <div className="mt-1 opacity-60">Showing about 1 in {Math.round(stride)} readings at this zoom</div>
+          )}
+        </div>
+      );
+    }
+    const def = metricDefs[s.id];
+    const unit = def.unit ? ` ${def.unit}` : '';
+    const range = drawnRange(s.id, dp);
+    return (
+      <div>
+        <div className="font-semibold">{def.label}</div>
+        <div className="opacity-80">
+          {rollupLabel[level as RollupLevel]} mean, {bucketLabel(level as RollupLevel, dp.start!)}
+        </div>
+        <div>
+          {dp.value.toFixed(1)}
+          {unit}
+        </div>
+        <div className="opacity-80">
+          range {dp.min}–{dp.max}
+          {unit} · {dp.count} readings
+        </div>
+        {range && range.severity !== 'normal' && (
+          <div style={{ color: severityColor[range.severity] }}>
+            Out of range: {range.label} ({formatRange(range)}
+            {unit})
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // high-volume path: many drawn points are painted on a canvas, and hover finds the nearest one instead
+  // of each carrying its own hit circle
+  const totalDrawn = filteredSeries.reduce((n, s) => n + details[s.id].points.length, 0);
+  const useCanvas = renderMode === 'canvas' || (renderMode === 'auto' && totalDrawn > CANVAS_POINTS);
+  const ringRef = useRef<HoverHandle<{ x: number; y: number }>>(null);
+  const nearestPoint = (px: number, py: number) => {
+    let best: { seriesId: MetricId; index: number } | null = null;
+    let bestD = POINT_HIT_R * POINT_HIT_R;
+    for (const s of filteredSeries) {
+      const { ts, points } = details[s.id];
+      const lo = bisect(ts, xScale.invert(px - POINT_HIT_R).getTime());
+      const hi = bisect(ts, xScale.invert(px + POINT_HIT_R).getTime() + 1);
+      const mid = bisect(ts, xScale.invert(px).getTime());
+      // nearest in time first; a dense column can hold thousands of points, so only look nearby
+      for (let i = Math.max(lo, mid - 200); i < Math.min(hi, mid + 200); i++) {
+        const dx = xScale(ts[i]) - px;
+        const dy = yOf(s.id, points[i].value) - py;
+        if (dx * dx + dy * dy < bestD) {
+          bestD = dx * dx + dy * dy;
+          best = { seriesId: s.id, index: i };
+        }
+      }
+    }
+    return best;
+  };
+  // events this far outside the chart aren't drawn (the keyboard-focused one always is)
+  const offChart = (x: number) => x < -EVENT_SPACING || x > totalWidth + EVENT_SPACING;
+  // rebuilt only when the drawn points or the scales change, so the canvas isn't repainted on every render
+  const canvasLayers = useMemo<CanvasLayer[]>(
+    () =>
+      useCanvas
+        ? filteredSeries.map((s) => {
+            const { points, level } = details[s.id];
+            const rollup = level !== 'raw' && level !== 'lttb';
+            const rings: CanvasLayer['rings'] = [];
+            points.forEach((dp, i) => {
+              const range = drawnRange(s.id, dp);
+              if (range && range.severity !== 'normal') rings.push({ i, color: severityColor[range.severity] });
+            });
+            return {
+              color: metricDefs[s.id].color,
+              xs: Float64Array.from(points, (dp) => xScale(dp.t)),
+              ys: Float64Array.from(points, (dp) => yOf(s.id, dp.value)),
+              band: rollup
+                ? {
+                    lo: Float64Array.from(points, (dp) => yOf(s.id, dp.min!)),
+                    hi: Float64Array.from(points, (dp) => yOf(s.id, dp.max!)),
+                  }
+                : undefined,
+              rings,
+            };
+          })
+        : [],
+    [useCanvas, filteredSeries, details, xScale, yOf, drawnRange, metricDefs]
+  );
+
+  // keyboard navigation: one chart item is in the tab order at a time (roving tabindex); arrows move
+  // along events or a series, up/down between events and series, Enter opens an event
+  const itemRefs = useRef(new Map<string, SVGGElement>());
+  const [focusItem, setFocusItem] = useState<ChartItem | null>(null);
+  const [keyboardFocus, setKeyboardFocus] = useState(false);
+  const tooltipId = `tooltip-${React.useId().replace(/:/g, '')}`;
+  const itemValid = (it: ChartItem | null): it is ChartItem =>
+    !!it &&
+    (it.kind === 'event'
+      ? orderedEvents.some((e) => e.id === it.id)
+      : !!filteredSeries.find((s) => s.id === it.seriesId)?.points[it.index]);
+  const firstSeries = filteredSeries.find((s) => s.points.length);
+  const tabItem: ChartItem | null = itemValid(focusItem)
+    ? focusItem
+    : orderedEvents.length
+      ? { kind: 'event', id: orderedEvents[0].id }
+      : firstSeries
+        ? { kind: 'point', seriesId: firstSeries.id, index: 0 }
+        : null;
+  const focusedKey = keyboardFocus && tabItem ? itemKey(tabItem) : null;
+
+  const itemEvent = (it: ChartItem) => (it.kind === 'event' ? orderedEvents.find((e) => e.id === it.id) : undefined);
+  const itemPoint = (it: ChartItem) => {
+    if (it.kind !== 'point') return undefined;
+    const s = filteredSeries.find((x) => x.id === it.seriesId);
+    return s && { s, p: s.points[it.index] };
+  };
+  const itemTime = (it: ChartItem) => new Date(itemEvent(it)?.timestamp ?? itemPoint(it)!.p.t).getTime();
+
+  const nextItem = (it: ChartItem, key: string): ChartItem | null => {
+    const t = itemTime(it);
+    const eventAt = (i: number): ChartItem | null =>
+      orderedEvents[i] ? { kind: 'event', id: orderedEvents[i].id } : null;
+    const nearestIn = (i: number): ChartItem | null => {
+      const s = filteredSeries[i];
+      if (!s?.points.length) return null;
+      const index = nearestIndex(
+        s.points.map((p) => new Date(p.t).getTime()),
+        t
+      );
+      return { kind: 'point', seriesId: s.id, index };
+    };
+    if (it.kind === 'event') {
+      const i = orderedEvents.findIndex((e) => e.id === it.id);
+      if (key === 'ArrowLeft') return eventAt(i - 1);
+      if (key === 'ArrowRight') return eventAt(i + 1);
+      if (key === 'Home') return eventAt(0);
+      if (key === 'End') return eventAt(orderedEvents.length - 1);
+      if (key === 'ArrowDown') return nearestIn(0);
+      return null;
+    }
+    const si = filteredSeries.findIndex((s) => s.id === it.seriesId);
+    const n = filteredSeries[si].points.length;
+    const at = (index: number): ChartItem | null => (index >= 0 && index < n ? { ...it, index } : null);
+    if (key === 'ArrowLeft') return at(it.index - 1);
+    if (key === 'ArrowRight') return at(it.index + 1);
+    if (key === 'Home') return at(0);
+    if (key === 'End') return at(n - 1);
+    if (key === 'ArrowDown') return nearestIn(si + 1);
+    if (key === 'ArrowUp') {
+      if (si > 0) return nearestIn(si - 1);
+      const times = orderedEvents.map((e) => new Date(e.timestamp).getTime());
+      return times.length ? eventAt(nearestIndex(times, t)) : null;
+    }
+    return null;
+  };
+
+  // pan items outside the window into view, keeping its width
+  // focus moves after the next render, once a badge holding the item has been expanded
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null);
+  React.useEffect(() => {
+    if (!pendingFocus) return;
+    itemRefs.current.get(pendingFocus)?.focus();
+    setPendingFocus(null);
+  }, [pendingFocus]);
+  // pan an item into view (keeping the zoom) and open the cluster it's drawn in
+  const revealItem = (it: ChartItem) => {
+    const t = itemTime(it);
+    const [a, b] = viewDomain.map((d) => d.getTime());
+    if (t < a || t > b) setViewWindow(t - (b - a) / 2, t + (b - a) / 2);
+    const mark = it.kind === 'event' ? markByEvent[it.id] : undefined;
+    if (mark?.kind === 'cluster') expandCluster(mark);
+  };
+  const focusChartItem = (it: ChartItem) => {
+    setFocusItem(it);
+    revealItem(it);
+    setPendingFocus(itemKey(it));
+  };
+  // step through the search results, wrapping at either end; selecting each opens its details
+  const jumpToMatch = (pos: number) => {
+    const n = searchResults.length;
+    if (!n) return;
+    const i = ((pos % n) + n) % n;
+    setMatchId(searchResults[i].id);
+    selectEvent(searchResults[i]);
+    revealItem({ kind: 'event', id: searchResults[i].id });
+  };
+
+  const anchorLabel = (a: AnnotationAnchor) =>
+    describeAnchor(a, a.kind === 'point' ? metricDefs[a.seriesId]?.label : undefined);
+  const saveAnnotations = (next: Annotation[]) => {
+    setAnnotations(next);
+    annotationStore.save(recordKey, next);
+  };
+  const addAnnotation = (anchor: AnnotationAnchor) => {
+    if (!userId) return;
+    const text = window.prompt(`Note for ${anchorLabel(anchor)}`)?.trim();
+    if (!text) return;
+    const note: Annotation = {
+      id: newAnnotationId(),
+      anchor,
+      text,
+      author: userId,
+      createdAt: new Date().toISOString(),
+    };
+    saveAnnotations([...annotations, note]);
+    setNoteId(note.id);
+  };
+  const editAnnotation = (note: Annotation) => {
+    const text = window.prompt(`Edit note for ${anchorLabel(note.anchor)}`, note.text)?.trim();
+    if (!text || text === note.text) return;
+    const edited = { ...note, text, editedAt: new Date().toISOString() };
+    saveAnnotations(annotations.map((a) => (a.id === note.id ? edited : a)));
+  };
+  const deleteAnnotation = (note: Annotation) => {
+    if (!window.confirm(`Delete this note?\n\n${note.text}`)) return;
+    saveAnnotations(annotations.filter((a) => a.id !== note.id));
+    if (noteId === note.id) setNoteId(null);
+  };
+  // select a note and bring it into view, widening the window for a long range and showing a hidden metric
+  const showAnnotation = (note: Annotation) => {
+    const a = note.anchor;
+    setNoteId(note.id);
+    const t0 = anchorTime(a);
+    const t1 = a.kind === 'range' ? new Date(a.end).getTime() : t0;
+    const [v0, v1] = viewDomain.map((d) => d.getTime());
+    if (t0 < v0 || t1 > v1) {
+      const span = Math.max(v1 - v0, (t1 - t0) * 1.2);
+      setViewWindow((t0 + t1) / 2 - span / 2, (t0 + t1) / 2 + span / 2);
+    }
+    if (a.kind === 'point' && !seriesOn(a.seriesId)) setEnabledSeries((prev) => ({ ...prev, [a.seriesId]: true }));
+  };
+
+  // in annotate mode a click pins a note to that date (or to the reading under the pointer), a drag to a range
+  const startAnnotation = (ev: React.PointerEvent<SVGSVGElement>) => {
+    const start = toContentXY(ev.clientX, ev.clientY);
+    const x0 = clamp(start.x, plotLeft, baseRangeRight);
+    let x1 = x0;
+    const onMove = (e: PointerEvent) => {
+      x1 = clamp(toContentXY(e.clientX, e.clientY).x, plotLeft, baseRangeRight);
+      setDraftSpan(Math.abs(x1 - x0) > 4 ? [Math.min(x0, x1), Math.max(x0, x1)] : null);
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+      setDraftSpan(null);
+      setAnnotating(false);
+      if (Math.abs(x1 - x0) > 4) {
+        const [a, b] = [Math.min(x0, x1), Math.max(x0, x1)].map((x) => xScale.invert(x).toISOString());
+        return addAnnotation({ kind: 'range', start: a, end: b });
+      }
+      // only a single reading can hold a note, not a rollup of many
+      const hit = nearestPoint(start.x, start.y);
+      const index = hit ? details[hit.seriesId].points[hit.index].index : undefined;
+      const s = hit && filteredSeries.find((m) => m.id === hit.seriesId);
+      if (s && index != null) addAnnotation({ kind: 'point', seriesId: s.id, t: s.points[index].t });
+      else addAnnotation({ kind: 'date', t: xScale.invert(x0).toISOString() });
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+  };
+
+  const onItemKeyDown = (ev: React.KeyboardEvent, it: ChartItem) => {
+    if ((ev.key === 'n' || ev.key === 'N') && userId) {
+      ev.preventDefault();
+      const point = itemPoint(it);
+      const e = itemEvent(it);
+      if (point) addAnnotation({ kind: 'point', seriesId: point.s.id, t: point.p.t });
+      else if (e) addAnnotation({ kind: 'date', t: e.timestamp });
+    } else if (ev.key === 'Enter' || ev.key === ' ') {
+      const e = itemEvent(it);
+      if (!e) return;
+      ev.preventDefault();
+      selectEvent(e);
+    } else if (ev.key === 'Escape') setKeyboardFocus(false);
+    else {
+      const next = nextItem(it, ev.key);
+      if (!next) return;
+      ev.preventDefault();
+      focusChartItem(next);
+    }
+  };
+
+  const itemProps = (it: ChartItem) => {
+    const key = itemKey(it);
+    return {
+      ref: (el: SVGGElement | null) => {
+        if (el) itemRefs.current.set(key, el);
+        else itemRefs.current.delete(key);
+      },
+      tabIndex: tabItem && itemKey(tabItem) === key ? 0 : -1,
+      // a mouse click focuses too; only keyboard focus shows the tooltip and ring
+      onFocus: (ev: React.FocusEvent<SVGGElement>) => {
+        setFocusItem(it);
+        setKeyboardFocus(ev.currentTarget.matches(':focus-visible'));
+      },
+      onBlur: () => setKeyboardFocus(false),
+      onKeyDown: (ev: React.KeyboardEvent) => onItemKeyDown(ev, it),
+      'aria-describedby': focusedKey === key ? tooltipId : undefined,
+    };
+  };
+
+  // tooltip for the keyboard-focused item, positioned like a hover on it
+  const focusTooltip = (() => {
+    if (!focusedKey || !tabItem) return null;
+    const e = itemEvent(tabItem);
+    const mark = e && markByEvent[e.id];
+    if (e && mark?.kind === 'cluster') {
+      return { x: mark.x, y: topPad + typeDefs[e.type].row * rowHeight + rowHeight / 2, content: clusterTooltip(mark) };
+    }
+    if (e) {
+      const span = spanOf(e);
+      const x = span ? Math.max(xScale.range()[0], xScale(span.start)) : xScale(new Date(e.timestamp));
+      return { x, y: topPad + typeDefs[e.type].row * rowHeight + rowHeight / 2, content: eventTooltip(e) };
+    }
+    const { s, p } = itemPoint(tabItem)!;
+    return { x: xScale(new Date(p.t)), y: yOf(s.id, p.value), content: pointTooltip(s, p) };
+  })();
+
+  // projections from a link are in data space; their knobs are placed once the runway is laid out
+  const [linkedProjections, setLinkedProjections] = useState<ViewState['projections'] | null>(() =>
+    linked?.projections?.length ? linked.projections : null
+  );
+  const placeLinked = (linkedList: ViewState['projections']): Projection[] => {
+    const msPerPx = (viewDomain[1].getTime() - viewDomain[0].getTime()) / Math.max(1, baseRangeRight - plotLeft);
+    return linkedList.flatMap((p) => {
+      const anchor = lastPointOf(p.metricId);
+      if (!anchor || !seriesOn(p.metricId)) return [];
+      return [
+        {
+          metricId: p.metricId,
+          dx: (p.t.getTime() - anchor.t.getTime()) / msPerPx,
+          dy: yOf(p.metricId, anchor.v) - yOf(p.metricId, p.value),
+        },
+      ];
+    });
+  };
+  const placeLinkedRef = useRef(placeLinked);
+  placeLinkedRef.current = placeLinked;
+  React.useEffect(() => {
+    if (!linkedProjections || !viewportW) return;
+    // first open the runway (it changes the px-per-day), then place the knobs
+    if (!runwayOn) {
+      setProjections(linkedProjections.map((p) => ({ metricId: p.metricId, dx: 0, dy: 0 })));
+      return;
+    }
+    setProjections(placeLinkedRef.current(linkedProjections));
+    setLinkedProjections(null);
+  }, [linkedProjections, viewportW, runwayOn]);
+
+  // deep links: the view as a query string, and back/forward restoring it
+  const viewQuery = encodeViewState(
+    {
+      types: enabledTypes,
+      series: enabledSeries,
+      range,
+      domain: customDomain,
+      smooth,
+      units: unitSystem,
+      projections: projectionTargets.map(({ metricId, t, value }) => ({ metricId, t, value })),
+      forecasts,
+      impact: impactOn,
+      event: selectedId,
+    },
+    { range: initialRange, smooth: 'monotone', units: initialUnitSystem }
+  );
+  useUrlViewState(urlState, viewQuery, (s) => {
+    // same base as the first render: saved defaults for a plain entry, the props under a deep link
+    const base: TimelinePreferences = window.location.search.length > 1 ? {} : (saved.defaults ?? {});
+    setEnabledTypes({ ...initialEnabledTypes, ...base.types, ...s.types });
+    setEnabledSeries({ ...initialEnabledSeries, ...base.series, ...s.series });
+    setRange(s.range ?? base.range ?? initialRange);
+    setCustomDomain(s.domain ?? null);
+    setSmooth(s.smooth ?? base.smooth ?? 'monotone');
+    setUnitSystem(s.units ?? base.units ?? initialUnitSystem);
+    setForecasts(s.forecasts ?? {});
+    setImpactOn(!!s.impact);
+    setSelectedId(s.event ?? null);
+    setProjections([]);
+    setLinkedProjections(s.projections?.length ? s.projections : null);
+  });
+
+  // preferences: presets replace the parts of the view they specify
+  const currentPrefs = (): TimelinePreferences => ({
+    types: enabledTypes,
+    series: enabledSeries,
+    range: activeRange ?? range,
+    smooth,
+    units: unitSystem,
+  });
+  const applyPrefs = (p: TimelinePreferences) => {
+    if (p.types) setEnabledTypes({ ...p.types });
+    if (p.series) setEnabledSeries({ ...p.series });
+    if (p.range) {
+      setRange(p.range);
+      setCustomDomain(null);
+    }
+    if (p.smooth) setSmooth(p.smooth);
+    if (p.units) setUnitSystem(p.units);
+  };
+  const prefsMatch = (p: TimelinePreferences) =>
+    (!p.types || typeKeys.every((t) => (p.types![t] ?? typeDefs[t].defaultVisible !== false) === typeOn(t))) &&
+    (!p.series ||
+      metricKeys.every((id) => (p.series![id] ?? metricDefs[id].defaultVisible !== false) === seriesOn(id))) &&
+    (!p.range || p.range === activeRange) &&
+    (!p.smooth || p.smooth === smooth) &&
+    (!p.units || p.units === unitSystem);
+  const savePrefs = (next: StoredPreferences) => {
+    setSaved(next);
+    if (userId) preferenceStore.save(userId, next);
+  };
+  const saveAsPreset = () => {
+    const name = window.prompt('Preset name')?.trim();
+    if (!name) return;
+    const rest = saved.presets.filter((p) => p.name !== name);
+    savePrefs({ ...saved, presets: [...rest, { name, prefs: currentPrefs() }] });
+  };
+  const allPresets = [...presets.filter((p) => !saved.presets.some((u) => u.name === p.name)), ...saved.presets];
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -498,8 +1521,15 @@ export const Timeline: React.FC = () => {
           </div>
           {/* Range chips */}
           <div className="flex items-center gap-2">
-            {(['1M', '3M', '6M', '1Y', 'ALL'] as const).map((r) => (
-              <button key={r} onClick={() => setRange(r)} className={chipClasses(range === r)}>
+            {TIME_RANGES.map((r) => (
+              <button
+                key={r}
+                onClick={() => {
+                  setRange(r);
+                  setCustomDomain(null);
+                }}
+                className={chipClasses(activeRange === r)}
+              >
                 {r}
               </button>
             ))}
@@ -509,30 +1539,155 @@ export const Timeline: React.FC = () => {
                 {m === 'straight' ? 'Sharp' : m === 'monotone' ? 'Smooth' : m === 'catmull' ? 'Catmull' : 'Basis'}
               </button>
             ))}
+            <div className="ml-3 h-5 w-px bg-[#1c2a46]" />
+            {(['imperial', 'metric'] as const).map((u) => (
+              <button key={u} onClick={() => setUnitSystem(u)} className={chipClasses(unitSystem === u)}>
+                {unitSystemLabel[u]}
+              </button>
+            ))}
 
+            {/* projections: one per visible metric */}
+            <select
+              value=""
+              onChange={(ev) => addProjection(ev.target.value)}
+              className={chipClasses(false)}
+              title="Add a projection for a visible metric"
+            >
+              <option value="" disabled>
+                + Projection
+              </option>
+              {filteredSeries
+                .filter((s) => !projections.some((p) => p.metricId === s.id))
+                .map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {metricDefs[s.id].label}
+                  </option>
+                ))}
+            </select>
+            {projections.length > 0 && (
+              <button className={chipClasses(true)} onClick={() => setProjections([])}>
+                Clear projections ({projections.length})
+              </button>
+            )}
+            <button className={chipClasses(impactOn)} onClick={() => setImpactOn((v) => !v)}>
+              Impact analysis
+            </button>
             <button
-              className={chipClasses(!!projection)}
-              onClick={() => {
-                if (projection) {
-                  setProjection(null);
-                  return;
-                }
-                const lp = lastPointOf('weight');
-                if (!lp) return;
-                // default goal = -20 lbs in ~3 months
-                // const end = new Date(lp.t);
-                // end.setMonth(end.getMonth() + 3);
-                setProjection({ metricId: 'weight', dx: 30, dy: 50 });
-                setRunwayPx((r) => Math.max(r, 600, 300 + 200));
-              }}
+              className={chipClasses(tableOn)}
+              onClick={() => setTableOn((v) => !v)}
+              aria-pressed={tableOn}
+              title="List the visible events and readings as a table"
             >
-              {projection ? 'Projection: On' : 'Add Weight Projection'}
+              Table
             </button>
+            {userId && (
+              <button
+                className={chipClasses(annotating)}
+                onClick={() => setAnnotating((v) => !v)}
+                aria-pressed={annotating}
+                title="Click the chart to note a date or a reading, or drag across it to note a time range"
+              >
+                Annotate
+              </button>
+            )}
+
+            {/* export the current view */}
+            <div className="ml-3 h-5 w-px bg-[#1c2a46]" />
+            <button className={chipClasses(false)} onClick={() => setImportOpen(true)}>
+              Import
+            </button>
+            <select
+              value=""
+              onChange={(ev) => {
+                const v = ev.target.value;
+                if (v === 'csv' || v === 'json') exportData(v);
+                else exportAs(v as ExportFormat);
+              }}
+              className={chipClasses(false)}
+              title="Download the current view, or the filtered data in the visible range"
+            >
+              <option value="" disabled>
+                Export
+              </option>
+              <optgroup label="View">
+                <option value="svg">SVG</option>
+                <option value="png">PNG</option>
+                <option value="pdf">PDF</option>
+              </optgroup>
+              <optgroup label="Data">
+                <option value="csv">CSV (metrics)</option>
+                <option value="json">JSON (events + metrics)</option>
+              </optgroup>
+            </select>
+            <select
+              value={exportDpi}
+              onChange={(ev) => setExportDpi(Number(ev.target.value))}
+              className={chipClasses(false)}
+              title="Resolution for PNG and PDF"
+            >
+              {[96, 150, 300].map((d) => (
+                <option key={d} value={d}>
+                  {d} DPI
+                </option>
+              ))}
+            </select>
+            {exportError && (
+              <span role="alert" className="flex items-center gap-1 text-xs text-red-300">
+                Export failed: {exportError}
+                <button
+                  onClick={() => setExportError(null)}
+                  className="text-slate-500 hover:text-slate-200"
+                  aria-label="Dismiss"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            )}
           </div>
         </div>
 
         {/* Toggles */}
         <div className="flex flex-col gap-2">
+          {/* Presets */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-400 mr-1">Presets:</span>
+            {allPresets.map((p) => (
+              <span key={p.name} className="inline-flex items-center">
+                <button onClick={() => applyPrefs(p.prefs)} className={chipClasses(prefsMatch(p.prefs))}>
+                  {p.name}
+                </button>
+                {!p.builtIn && userId && (
+                  <button
+                    onClick={() => savePrefs({ ...saved, presets: saved.presets.filter((u) => u.name !== p.name) })}
+                    className="ml-1 text-slate-500 hover:text-slate-200"
+                    title={`Delete preset "${p.name}"`}
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </span>
+            ))}
+            {userId && (
+              <>
+                <div className="ml-1 h-5 w-px bg-[#1c2a46]" />
+                <button
+                  className={chipClasses(false)}
+                  onClick={saveAsPreset}
+                  title="Save the current filters as a preset"
+                >
+                  Save preset
+                </button>
+                <button
+                  className={chipClasses(!!saved.defaults && prefsMatch(saved.defaults))}
+                  onClick={() => savePrefs({ ...saved, defaults: currentPrefs() })}
+                  title="Open the timeline with the current filters, range, curve and units"
+                >
+                  Make default
+                </button>
+              </>
+            )}
+          </div>
+
           {/* Show events */}
           <div className="flex flex-wrap items-center gap-2">
             <span className="text-xs text-slate-400 mr-1">Show events:</span>
@@ -548,20 +1703,113 @@ export const Timeline: React.FC = () => {
 
             {/* Individual event pills */}
             {typeKeys.map((t) => {
-              const active = enabledTypes[t];
+              const active = typeOn(t);
               return (
                 <button
                   key={t}
-                  onClick={() => setEnabledTypes((prev) => ({ ...prev, [t]: !prev[t] }))}
+                  onClick={() => setEnabledTypes((prev) => ({ ...prev, [t]: !typeOn(t) }))}
                   className={pillClasses(active)}
                 >
-                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: typeColors[t] }} />
-                  <span className="capitalize">{t}</span>
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: typeDefs[t].color }} />
+                  <span className="capitalize">{typeDefs[t].label}</span>
                 </button>
               );
             })}
           </div>
 
+          {/* Search */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-400 mr-1">Search:</span>
+            <label className="flex items-center gap-1.5 bg-[#0b1426] border border-[#1c2a46] rounded-lg px-2 py-1">
+              <Search size={12} className="text-slate-400" />
+              <input
+                type="search"
+                value={query}
+                onChange={(ev) => {
+                  setQuery(ev.target.value);
+                  setMatchId(null);
+                }}
+                onKeyDown={(ev) => {
+                  if (ev.key === 'Enter') {
+                    ev.preventDefault();
+                    jumpToMatch(ev.shiftKey ? (matchPos < 0 ? -1 : matchPos - 1) : matchPos + 1);
+                  } else if (ev.key === 'Escape') {
+                    setQuery('');
+                    setMatchId(null);
+                  }
+                }}
+                placeholder="Label, code or dose (e.g. E11.9, type:lab)"
+                aria-label="Search events"
+                className="w-64 bg-transparent text-xs text-slate-200 placeholder:text-slate-500 outline-none"
+              />
+            </label>
+            {matches && (
+              <>
+                <button
+                  className={chipClasses(false)}
+                  onClick={() => jumpToMatch(matchPos < 0 ? -1 : matchPos - 1)}
+                  disabled={!searchResults.length}
+                  aria-label="Previous match"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <button
+                  className={chipClasses(false)}
+                  onClick={() => jumpToMatch(matchPos + 1)}
+                  disabled={!searchResults.length}
+                  aria-label="Next match"
+                >
+                  <ChevronRight size={12} />
+                </button>
+                <span className="text-xs text-slate-400" aria-live="polite">
+                  {searchResults.length
+                    ? `${matchPos >= 0 ? `${matchPos + 1} of ` : ''}${searchResults.length} ${searchResults.length === 1 ? 'match' : 'matches'}`
+                    : 'No matches'}
+                </span>
+                {hiddenMatchTypes.length > 0 && (
+                  <button
+                    className="text-xs text-teal-300 hover:text-teal-200"
+                    onClick={() => setEnabledTypes((prev) => ({ ...prev, ...setAllRecord(hiddenMatchTypes, true) }))}
+                    title="Turn on the event types these matches belong to"
+                  >
+                    + more in {hiddenMatchTypes.map((t) => typeDefs[t].label.toLowerCase()).join(', ')} (hidden)
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+          {searchResults.length > 0 && (
+            <ol className="max-h-32 overflow-auto rounded-lg border border-[#1c2a46] bg-[#0b1426] text-xs">
+              {searchResults.map((e, i) => (
+                <li key={e.id}>
+                  <button
+                    onClick={() => jumpToMatch(i)}
+                    className={clsx(
+                      'flex w-full items-center gap-2 px-2 py-1 text-left hover:bg-[#13203a]',
+                      i === matchPos ? 'text-slate-100 bg-[#13203a]' : 'text-slate-300'
+                    )}
+                    aria-current={i === matchPos || undefined}
+                  >
+                    <span className="w-24 shrink-0 text-slate-400">{format(new Date(e.timestamp), 'PP')}</span>
+                    <span
+                      className="inline-block w-2 h-2 shrink-0 rounded-full"
+                      style={{ background: typeDefs[e.type].colorFor?.(e) ?? typeDefs[e.type].color }}
+                    />
+                    <span>{e.label}</span>
+                    {matches!
+                      .get(e.id)!
+                      .filter((h) => h.field !== 'label' && h.field !== 'type')
+                      .map((h) => (
+                        <span key={`${h.field}${h.value}`} className="text-slate-500">
+                          {h.field}: {h.value}
+                        </span>
+                      ))}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
           {/* Show metrics */}
           <div className="flex flex-wrap items-center gap-2">
             <span className="text-xs text-slate-400 mr-1">Show metrics:</span>
@@ -569,7 +1817,7 @@ export const Timeline: React.FC = () => {
             {/* ALL (metrics) */}
             <button
               className={pillAllBlue(allMetricsOn)}
-              onClick={() => setEnabledSeries(setAllRecord(metricKeys as any, !allMetricsOn))}
+              onClick={() => setEnabledSeries(setAllRecord(metricKeys, !allMetricsOn))}
               title={allMetricsOn ? 'Hide all metrics' : 'Show all metrics'}
             >
               All
@@ -577,19 +1825,80 @@ export const Timeline: React.FC = () => {
 
             {/* Individual metric pills */}
             {metricSeries.map((s) => {
-              const active = enabledSeries[s.id];
+              const active = seriesOn(s.id);
               return (
                 <button
                   key={s.id}
-                  onClick={() => setEnabledSeries((prev) => ({ ...prev, [s.id]: !prev[s.id] }))}
+                  onClick={() => setEnabledSeries((prev) => ({ ...prev, [s.id]: !seriesOn(s.id) }))}
                   className={pillClasses(active)}
                 >
-                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: seriesColor[s.id] }} />
-                  {s.label}
+                  <span
+                    className="inline-block w-2 h-2 rounded-full mr-2"
+                    style={{ background: metricDefs[s.id].color }}
+                  />
+                  {metricDefs[s.id].label}
                 </button>
               );
             })}
           </div>
+
+          {/* Forecast (per visible metric) */}
+          {filteredSeries.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs text-slate-400 mr-1">Forecast:</span>
+              {filteredSeries.map((s) => (
+                <label key={s.id} className="flex items-center gap-1.5 text-xs text-slate-300">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ background: metricDefs[s.id].color }} />
+                  {metricDefs[s.id].label}
+                  <select
+                    value={forecasts[s.id] ?? ''}
+                    onChange={(ev) =>
+                      setForecasts((prev) => ({
+                        ...prev,
+                        [s.id]: FORECAST_METHODS.find((m) => m === ev.target.value), // undefined for Off
+                      }))
+                    }
+                    className="bg-[#0b1426] border border-[#1c2a46] rounded px-1 py-0.5 text-xs text-slate-300"
+                  >
+                    <option value="">Off</option>
+                    {FORECAST_METHODS.map((m) => (
+                      <option key={m} value={m}>
+                        {forecastMethodLabel[m]}
+                      </option>
+                    ))}
+                  </select>
+                  {forecasts[s.id] && !forecastModels[s.id] && (
+                    <span className="text-slate-500" title="Needs at least 3 points in the visible range">
+                      (not enough data)
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Impact window */}
+          {impactOn && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+              <span className="text-slate-400 mr-1">Impact window:</span>
+              {(['beforeDays', 'afterDays'] as const).map((k) => (
+                <label key={k} className="flex items-center gap-1.5">
+                  {k === 'beforeDays' ? 'before' : 'after'}
+                  <select
+                    value={impactWindow[k]}
+                    onChange={(ev) => setImpactWindow((w) => ({ ...w, [k]: Number(ev.target.value) }))}
+                    className="bg-[#0b1426] border border-[#1c2a46] rounded px-1 py-0.5 text-xs text-slate-300"
+                  >
+                    {[30, 90, 180, 365].map((d) => (
+                      <option key={d} value={d}>
+                        {d} days
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -599,19 +1908,21 @@ export const Timeline: React.FC = () => {
         className={clsx('relative border rounded-xl shadow-lg overflow-hidden', bgPanel, 'h-[75vh]')}
       >
         <div className="absolute top-2 left-2 z-30 bg-[#0f172a]/60 border border-slate-700 rounded-lg px-4 py-3 shadow-lg backdrop-blur-sm">
-          <h2 className="text-lg font-semibold text-slate-100">{patientProfile.name}</h2>
+          <h2 className="text-lg font-semibold text-slate-100">{profile.name}</h2>
           <div className="text-sm text-slate-300 space-y-0.5">
+            {profile.age != null && (
+              <div>
+                <span className="font-medium">Age:</span> {profile.age}
+              </div>
+            )}
             <div>
-              <span className="font-medium">Age:</span> {patientProfile.age}
-            </div>
-            <div>
-              <span className="font-medium">Sex:</span> {patientProfile.sex}
+              <span className="font-medium">Sex:</span> {profile.sex}
             </div>
             <div>
-              <span className="font-medium">DOB:</span> {patientProfile.dob}
+              <span className="font-medium">DOB:</span> {profile.dob}
             </div>
             <div>
-              <span className="font-medium">MRN:</span> {patientProfile.mrn}
+              <span className="font-medium">MRN:</span> {profile.mrn}
             </div>
           </div>
         </div>
@@ -620,518 +1931,1201 @@ export const Timeline: React.FC = () => {
           className="pointer-events-none absolute inset-0"
           style={{ boxShadow: 'inset 0 0 40px rgba(33,212,253,0.08), inset 0 0 60px rgba(183,33,255,0.06)' }}
         />
-        <TransformWrapper
-          ref={twRef}
-          key={`${viewportW}`}
-          minScale={Math.min(1, (viewportW || 1) / totalWidth)}
-          maxScale={6}
-          initialScale={initialScale}
-          centerOnInit
-          wheel={{ step: 0.08 }}
-          doubleClick={{ disabled: true }}
-          // panning={{ disabled: !!projection, velocityDisabled: true }}
-          panning={{ disabled: panDisabled, velocityDisabled: true }}
-        >
-          {({ zoomIn, zoomOut, resetTransform }) => (
-            <>
-              {/* Zoom controls */}
-              <div className="absolute right-3 top-3 z-20 flex gap-2">
-                <button
-                  onClick={() => zoomOut()}
-                  className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
-                >
-                  –
-                </button>
-                <button
-                  onClick={() => zoomIn()}
-                  className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
-                >
-                  +
-                </button>
-                <button
-                  onClick={() => resetTransform()}
-                  className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
-                >
-                  Reset
-                </button>
-              </div>
-
-              <TransformComponent wrapperClass="!w-full !h-full" contentClass="!w-fit !h-fit">
-                <svg ref={svgRef} width={totalWidth} height={chartH} style={{ touchAction: 'none' }}>
-                  {/* alternating stripes */}
-                  {Array.from({ length: rows }).map((_, i) => (
-                    <rect
-                      key={i}
-                      x={paddingLeft}
-                      y={topPad + i * rowHeight}
-                      width={totalWidth - paddingLeft - rightPad} // CHANGED
-                      height={rowHeight}
-                      fill={i % 2 === 0 ? bgStripeA : bgStripeB}
-                    />
-                  ))}
-
-                  {/* faint vertical grid */}
-                  {Array.from({ length: 24 }).map((_, i) => {
-                    const x = paddingLeft + i * ((totalWidth - rightPad - paddingLeft) / 24); // CHANGED
-                    return <line key={i} x1={x} x2={x} y1={0} y2={chartH} stroke={gridStroke} strokeWidth={1} />;
-                  })}
+        {/* Zoom controls */}
+        <div className="absolute right-3 top-3 z-20 flex gap-2">
+          <button
+            onClick={() => zoomAt(1.5)}
+            className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
+          >
+            –
+          </button>
+          <button
+            onClick={() => zoomAt(1 / 1.5)}
+            className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
+          >
+            +
+          </button>
+          <button
+            onClick={() => setCustomDomain(null)}
+            className="px-2 py-1 text-xs rounded bg-slate-800/70 text-slate-100 hover:bg-slate-700"
+          >
+            Reset
+          </button>
+        </div>
 
-                  {/* Metric tracks background */}
+        <div className="absolute inset-0 overflow-x-auto overflow-y-hidden">
+          <div className="relative w-fit h-full">
+            <svg
+              ref={svgRef}
+              width={totalWidth}
+              height={chartH}
+              style={{ touchAction: 'none', cursor: annotating ? 'crosshair' : undefined }}
+              onPointerDown={onChartPointerDown}
+              role="group"
+              aria-roledescription="timeline chart"
+              aria-label={`Timeline for ${profile.name}, ${format(viewDomain[0], 'PP')} to ${format(viewDomain[1], 'PP')}: ${events.length} events, ${filteredSeries.length} metrics`}
+              aria-describedby={`${tooltipId}-help`}
+            >
+              <defs>
+                <clipPath id={metricsClipId}>
                   <rect
                     x={paddingLeft}
                     y={topPad + rows * rowHeight}
                     width={totalWidth - paddingLeft - rightPad}
                     height={metricsHeight}
-                    fill="#0a1221"
-                    opacity={0.6}
                   />
-
-                  {/* Metric lines (top/bottom panels) */}
-                  {filteredSeries.map((s) => {
-                    // choose y scale
-                    const yFor = (val: number) => {
-                      if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(val);
-                      if (autoScaleMode === 'GROUP' && yGroup) return yGroup(val);
-                      const { min, max } = visibleExtents[s.id];
-                      const norm = ((val - min) / (max - min)) * 100;
-                      return yNormalized(norm);
-                    };
-
+                </clipPath>
+              </defs>
+
+              {/* alternating stripes */}
+              {Array.from({ length: rows }).map((_, i) => (
+                <rect
+                  key={i}
+                  x={paddingLeft}
+                  y={topPad + i * rowHeight}
+                  width={totalWidth - paddingLeft - rightPad} // CHANGED
+                  height={rowHeight}
+                  fill={i % 2 === 0 ? bgStripeA : bgStripeB}
+                />
+              ))}
+
+              {/* faint vertical grid */}
+              {Array.from({ length: 24 }).map((_, i) => {
+                const x = paddingLeft + i * ((totalWidth - rightPad - paddingLeft) / 24); // CHANGED
+                return <line key={i} x1={x} x2={x} y1={0} y2={chartH} stroke={gridStroke} strokeWidth={1} />;
+              })}
+
+              {/* Metric tracks background */}
+              <rect
+                x={paddingLeft}
+                y={topPad + rows * rowHeight}
+                width={totalWidth - paddingLeft - rightPad}
+                height={metricsHeight}
+                fill="#0a1221"
+                opacity={0.6}
+              />
+
+              {/* reference ranges: shaded bands when one metric owns the axis, threshold lines when several share it */}
+              {autoScaleMode !== 'NORMALIZED' &&
+                (() => {
+                  const yScale = autoScaleMode === 'SINGLE' ? ySingle : yGroup;
+                  const withRanges = filteredSeries.filter((s) => rangesById[s.id].length);
+                  if (!yScale || !withRanges.length) return null;
+                  const [d0, d1] = yScale.domain();
+                  const x0 = paddingLeft;
+                  const width = totalWidth - paddingLeft - rightPad;
+
+                  if (withRanges.length === 1) {
                     return (
-                      <g key={s.id}>
-                        <LinePath
-                          data={s.points}
-                          x={(d) => xScale(new Date(d.t))}
-                          y={(d) => yFor(d.value)}
-                          stroke={seriesColor[s.id]}
-                          strokeWidth={5}
-                          strokeOpacity={0.9}
-                          curve={curveFactory}
-                        />
-
-                        {s.points.map((p, i) => {
-                          const cx = xScale(new Date(p.t));
-                          const cy = yFor(p.value);
+                      <g clipPath={`url(#${metricsClipId})`} pointerEvents="none">
+                        {rangesById[withRanges[0].id].map((r) => {
+                          const yLo = yScale(Math.max(d0, r.min ?? d0));
+                          const yHi = yScale(Math.min(d1, r.max ?? d1));
+                          if (yLo <= yHi) return null; // band outside the visible domain
+                          const color = severityColor[r.severity];
                           return (
-                            <g key={i}>
-                              {/* big hit area */}
-                              <circle
-                                cx={cx}
-                                cy={cy}
-                                r={14}
-                                fill="transparent"
-                                stroke="transparent"
-                                style={{ pointerEvents: 'all' }}
-                                onMouseEnter={(evt) => {
-                                  const lp = localPoint(evt) as { x: number; y: number };
-                                  let extra: string | null = null;
-                                  if (autoScaleMode === 'NORMALIZED') {
-                                    const { min, max } = visibleExtents[s.id];
-                                    const norm = ((p.value - min) / (max - min)) * 100;
-                                    extra = ` • ${norm.toFixed(0)}%`;
-                                  }
-                                  setHover({
-                                    x: lp.x,
-                                    y: lp.y,
-                                    content: (
-                                      <div>
-                                        <div className="font-semibold">{s.label}</div>
-                                        <div className="opacity-80">{format(new Date(p.t), 'PP p')}</div>
-                                        <div>
-                                          {p.value}
-                                          {s.unit ? ` ${s.unit}` : ''}
-                                          {extra}
-                                        </div>
-                                      </div>
-                                    ),
-                                  });
-                                }}
-                                onMouseLeave={() => setHover(null)}
-                              />
-                              <circle cx={cx} cy={cy} r={3} fill={seriesColor[s.id]} />
+                            <g key={r.label}>
+                              <rect x={x0} y={yHi} width={width} height={yLo - yHi} fill={color} opacity={0.07} />
+                              <line x1={x0} x2={x0 + width} y1={yHi} y2={yHi} stroke={color} strokeOpacity={0.25} />
+                              <text
+                                x={baseRangeRight - 6}
+                                y={yHi + 14}
+                                textAnchor="end"
+                                fill={color}
+                                fillOpacity={0.75}
+                                fontSize={11}
+                              >
+                                {r.label}
+                              </text>
                             </g>
                           );
                         })}
                       </g>
                     );
+                  }
+
+                  return (
+                    <g clipPath={`url(#${metricsClipId})`} pointerEvents="none">
+                      {withRanges.flatMap((s) =>
+                        rangesById[s.id]
+                          .filter((r) => r.min != null && r.min > d0 && r.min < d1)
+                          .map((r) => (
+                            <g key={`${s.id}-${r.label}`}>
+                              <line
+                                x1={x0}
+                                x2={x0 + width}
+                                y1={yScale(r.min!)}
+                                y2={yScale(r.min!)}
+                                stroke={metricDefs[s.id].color}
+                                strokeOpacity={0.35}
+                                strokeDasharray="6 6"
+                              />
+                              <text
+                                x={baseRangeRight - 6}
+                                y={yScale(r.min!) - 4}
+                                textAnchor="end"
+                                fill={metricDefs[s.id].color}
+                                fillOpacity={0.7}
+                                fontSize={11}
+                              >
+                                {metricDefs[s.id].label}: {r.label} ≥ {r.min}
+                              </text>
+                            </g>
+                          ))
+                      )}
+                    </g>
+                  );
+                })()}
+
+              {/* impact windows for the hovered/selected event */}
+              {impactOn &&
+                events
+                  .filter((e) => e.id === hoveredEventId || e.id === selectedId)
+                  .map((e) => {
+                    const [w0, w1] = windowAround(e, impactWindow);
+                    const xe = xScale(new Date(e.timestamp));
+                    const xa = xScale(w0);
+                    const xb = xScale(w1);
+                    const top = topPad + rows * rowHeight;
+                    return (
+                      <g key={`impact-${e.id}`} pointerEvents="none">
+                        <rect x={xa} y={top} width={xe - xa} height={metricsHeight} fill="#7aa2ff" opacity={0.06} />
+                        <rect x={xe} y={top} width={xb - xe} height={metricsHeight} fill="#ffb020" opacity={0.07} />
+                        {[xa, xb].map((x, i) => (
+                          <line
+                            key={i}
+                            x1={x}
+                            x2={x}
+                            y1={top}
+                            y2={top + metricsHeight}
+                            stroke="#e2e8f0"
+                            strokeOpacity={0.3}
+                            strokeDasharray="2 4"
+                          />
+                        ))}
+                        <text x={xa + 6} y={top + 14} fill="#7aa2ff" fontSize={11}>
+                          before
+                        </text>
+                        <text x={xe + 6} y={top + 14} fill="#ffb020" fontSize={11}>
+                          after
+                        </text>
+                      </g>
+                    );
                   })}
 
-                  {/* Events */}
-                  {events.map((e) => {
-                    const x = xScale(new Date(e.timestamp));
-                    const row = rowsByType[e.type];
-                    const cy = topPad + row * rowHeight + rowHeight / 2;
-                    const baseColor = typeColors[e.type];
-                    const Icon = eventIcon[e.type] ?? ClipboardList;
+              {/* Metric lines (top/bottom panels) */}
+              {useCanvas && (
+                <>
+                  <MetricCanvas
+                    x={paddingLeft}
+                    y={topPad + rows * rowHeight}
+                    width={totalWidth - paddingLeft - rightPad}
+                    height={metricsHeight}
+                    layers={canvasLayers}
+                    curve={curveFactory}
+                  />
+                  {/* one hover target for all points */}
+                  <rect
+                    x={paddingLeft}
+                    y={topPad + rows * rowHeight}
+                    width={totalWidth - paddingLeft - rightPad}
+                    height={metricsHeight}
+                    fill="transparent"
+                    style={{ pointerEvents: 'all' }}
+                    onMouseMove={(evt) => {
+                      const lp = localPoint(evt) as { x: number; y: number };
+                      const hit = nearestPoint(lp.x, lp.y);
+                      const s = hit && filteredSeries.find((m) => m.id === hit.seriesId);
+                      const dp = s && details[s.id].points[hit.index];
+                      ringRef.current?.show(s && dp ? { x: xScale(dp.t), y: yOf(s.id, dp.value) } : null);
+                      setHover(s && dp ? { x: lp.x, y: lp.y, content: drawnTooltip(s, dp) } : null);
+                    }}
+                    onMouseLeave={() => {
+                      ringRef.current?.show(null);
+                      setHover(null);
+                    }}
+                  />
+                  <HoverRing ref={ringRef} />
+                </>
+              )}
+              {filteredSeries.map((s) => {
+                // choose y scale
+                const yFor = (val: number) => {
+                  if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(val);
+                  if (autoScaleMode === 'GROUP' && yGroup) return yGroup(val);
+                  const { min, max } = visibleExtents[s.id];
+                  const norm = ((val - min) / (max - min)) * 100;
+                  return yNormalized(norm);
+                };
+
+                const { points: drawn, level } = details[s.id];
+                const rollup = level !== 'raw' && level !== 'lttb';
+                // readings that aren't drawn (rolled up, or on the canvas) get an element only while focused
+                const tabIndex = tabItem?.kind === 'point' && tabItem.seriesId === s.id ? tabItem.index : -1;
+                const marks: DrawnPoint[] = useCanvas ? [] : [...drawn];
+                if (tabIndex >= 0 && !marks.some((dp) => dp.index === tabIndex)) {
+                  marks.push({ t: pointTimes[s.id][tabIndex], value: s.points[tabIndex].value, index: tabIndex });
+                }
 
-                    // choose nodeColor (life events can override)
-                    const nodeColor =
-                      e.type === 'life' ? (e.meta?.valence === 'negative' ? '#ff6b6b' : '#8cff66') : baseColor;
+                return (
+                  <g key={s.id} role="list" aria-label={`${metricDefs[s.id].label}, ${s.points.length} readings`}>
+                    {/* min–max band of each rollup bucket */}
+                    {!useCanvas && rollup && (
+                      <Area
+                        data={drawn}
+                        x={(d) => xScale(d.t)}
+                        y0={(d) => yFor(d.min!)}
+                        y1={(d) => yFor(d.max!)}
+                        fill={metricDefs[s.id].color}
+                        fillOpacity={0.18}
+                        curve={curveFactory}
+                        pointerEvents="none"
+                      />
+                    )}
+                    {!useCanvas && (
+                      <LinePath
+                        data={drawn}
+                        x={(d) => xScale(d.t)}
+                        y={(d) => yFor(d.value)}
+                        stroke={metricDefs[s.id].color}
+                        strokeWidth={rollup ? 2.5 : 5}
+                        strokeOpacity={0.9}
+                        curve={curveFactory}
+                      />
+                    )}
+
+                    {marks.map((dp) => {
+                      const cx = xScale(dp.t);
+                      const cy = yFor(dp.value);
+                      const range = drawnRange(s.id, dp);
+                      const outOfRange = !!range && range.severity !== 'normal';
+                      const shown = !useCanvas && drawn.includes(dp); // not just the focus stand-in
+                      const item: ChartItem | null =
+                        dp.index != null ? { kind: 'point', seriesId: s.id, index: dp.index } : null;
+                      return (
+                        <g
+                          key={dp.index ?? `b${dp.start}`}
+                          {...(item && itemProps(item))}
+                          role="listitem"
+                          aria-label={
+                            dp.index != null
+                              ? describeReading(metricDefs[s.id], s.points[dp.index], range)
+                              : describeBucket(metricDefs[s.id], level as RollupLevel, dp, range)
+                          }
+                          className="outline-none"
+                        >
+                          {/* big hit area */}
+                          {shown && (
+                            <circle
+                              cx={cx}
+                              cy={cy}
+                              r={POINT_HIT_R}
+                              fill="transparent"
+                              stroke="transparent"
+                              style={{ pointerEvents: 'all' }}
+                              onMouseEnter={(evt) => {
+                                const lp = localPoint(evt) as { x: number; y: number };
+                                setHover({ x: lp.x, y: lp.y, content: drawnTooltip(s, dp) });
+                              }}
+                              onMouseLeave={() => setHover(null)}
+                            />
+                          )}
+                          {shown && !rollup && <circle cx={cx} cy={cy} r={3} fill={metricDefs[s.id].color} />}
+                          {/* out-of-range marker */}
+                          {outOfRange && shown && (
+                            <circle
+                              cx={cx}
+                              cy={cy}
+                              r={rollup ? 4 : 7}
+                              fill="none"
+                              stroke={severityColor[range.severity]}
+                              strokeWidth={2}
+                              pointerEvents="none"
+                            />
+                          )}
+                          {item && focusedKey === itemKey(item) && (
+                            <circle cx={cx} cy={cy} r={10} fill="none" stroke="#ffb020" strokeWidth={2} />
+                          )}
+                        </g>
+                      );
+                    })}
+                  </g>
+                );
+              })}
+
+              {/* Events */}
+              <g role="group" aria-label="Events">
+                {events.map((e) => {
+                  const x = xScale(new Date(e.timestamp));
+                  const def = typeDefs[e.type];
+                  const row = def.row;
+                  const cy = topPad + row * rowHeight + rowHeight / 2;
+                  const Icon = def.icon;
+
+                  // choose nodeColor (types can override per event, e.g. life valence)
+                  const nodeColor = def.colorFor?.(e) ?? def.color;
+
+                  const onEnter = (evt: React.MouseEvent) => {
+                    const lp = localPoint(evt) as { x: number; y: number };
+                    setHover({ x: lp.x, y: lp.y, content: eventTooltip(e) });
+                    setHoveredEventId(e.id);
+                  };
+                  const onLeave = () => {
+                    setHover(null);
+                    setHoveredEventId(null);
+                  };
+                  const item: ChartItem = { kind: 'event', id: e.id };
+                  const focused = focusedKey === itemKey(item);
+                  const found = !!matches?.has(e.id);
+                  const a11y = { ...itemProps(item), role: 'button', 'aria-label': describeEvent(e, def) };
+
+                  // duration events: a bar in their (sub-)lane, clipped to the plotted range
+                  const span = spanOf(e);
+                  if (span) {
+                    const [r0, r1] = xScale.range();
+                    const bx0 = Math.max(r0, xScale(span.start));
+                    const bx1 = Math.min(r1, span.end ? xScale(span.end) : r1);
+                    if (bx1 < r0 || bx0 > r1) return null;
+
+                    const { lane, lanes } = subLanes[e.id] ?? { lane: 0, lanes: 1 };
+                    const laneH = (rowHeight - 6) / lanes;
+                    const barH = laneH - 2;
+                    const barY = topPad + row * rowHeight + 3 + lane * laneH + 1;
+                    const barW = Math.max(barH, bx1 - bx0);
+                    const fontSize = Math.min(12, barH - 4);
+
+                    // dose-change segments, each running until the next one starts
+                    const segs = (e.segments ?? []).map((sg, i, all) => {
+                      const next = all[i + 1];
+                      const sx0 = Math.max(bx0, xScale(new Date(sg.start)));
+                      const sx1 = Math.min(bx0 + barW, next ? xScale(new Date(next.start)) : bx0 + barW);
+                      return { ...sg, sx0, sx1 };
+                    });
 
-                    const NODE_R = 20;
+                    return (
+                      <g
+                        key={e.id}
+                        {...a11y}
+                        opacity={dimmed(e) ? 0.2 : 1}
+                        className="cursor-pointer outline-none"
+                        onMouseEnter={onEnter}
+                        onMouseLeave={onLeave}
+                        onClick={() => selectEvent(e)}
+                      >
+                        <rect
+                          x={bx0}
+                          y={barY}
+                          width={barW}
+                          height={barH}
+                          rx={barH / 2}
+                          fill={nodeColor}
+                          fillOpacity={0.25}
+                          stroke={
+                            focused ? '#ffb020' : e.id === selectedId ? '#e6f4ff' : found ? SEARCH_COLOR : nodeColor
+                          }
+                          strokeWidth={focused || e.id === selectedId || found ? 2 : 1}
+                          strokeOpacity={0.8}
+                        />
 
-                    // guide line
-                    // y-position of the bottom time axis baseline (before the +padding used in the Axis group)
-                    const axisBaselineY = topPad + rows * rowHeight + metricsHeight;
-                    const guideY1 = cy + NODE_R + 2; // just below the big node
-                    const guideY2 = axisBaselineY - 2;
+                        {/* segments get progressively stronger fills so dose steps read at a glance */}
+                        {segs.map((sg, i) =>
+                          sg.sx1 <= sg.sx0 ? null : (
+                            <g key={sg.start}>
+                              <rect
+                                x={sg.sx0}
+                                y={barY}
+                                width={sg.sx1 - sg.sx0}
+                                height={barH}
+                                fill={nodeColor}
+                                fillOpacity={Math.min(0.7, 0.15 + 0.15 * i)}
+                              />
+                              {i > 0 && (
+                                <line
+                                  x1={sg.sx0}
+                                  x2={sg.sx0}
+                                  y1={barY}
+                                  y2={barY + barH}
+                                  stroke="#0b0f1c"
+                                  strokeWidth={2}
+                                />
+                              )}
+                              {sg.sx1 - sg.sx0 > 70 && fontSize >= 8 && (
+                                <text
+                                  x={sg.sx0 + (i === 0 ? barH + 4 : 6)}
+                                  y={barY + barH / 2}
+                                  dy="0.35em"
+                                  fontSize={fontSize}
+                                  fill="#e6f4ff"
+                                  pointerEvents="none"
+                                >
+                                  {i === 0 ? `${e.label} · ${sg.label}` : sg.label}
+                                </text>
+                              )}
+                            </g>
+                          )
+                        )}
+                        {!segs.length && barW > 80 && fontSize >= 8 && (
+                          <text
+                            x={bx0 + barH + 4}
+                            y={barY + barH / 2}
+                            dy="0.35em"
+                            fontSize={fontSize}
+                            fill="#e6f4ff"
+                            pointerEvents="none"
+                          >
+                            {e.label}
+                          </text>
+                        )}
+
+                        {/* ongoing: open arrow at the right edge */}
+                        {!span.end && (
+                          <path
+                            d={`M${bx0 + barW - 2},${barY + 2} l${barH / 2 - 2},${barH / 2 - 2} l-${barH / 2 - 2},${barH / 2 - 2}`}
+                            fill="none"
+                            stroke="#e6f4ff"
+                            strokeWidth={2}
+                          />
+                        )}
 
+                        {/* start cap with the type icon */}
+                        <circle cx={bx0 + barH / 2} cy={barY + barH / 2} r={barH / 2} fill={nodeColor} />
+                        {barH >= 14 && (
+                          <g transform={`translate(${bx0 + 3}, ${barY + 3})`}>
+                            <Icon size={barH - 6} color="#e6f4ff" strokeWidth={2} />
+                          </g>
+                        )}
+                      </g>
+                    );
+                  }
+
+                  // guide line
+                  // y-position of the bottom time axis baseline (before the +padding used in the Axis group)
+                  const axisBaselineY = topPad + rows * rowHeight + metricsHeight;
+                  const guideY1 = cy + NODE_R + 2; // just below the big node
+                  const guideY2 = axisBaselineY - 2;
+
+                  const mark = markByEvent[e.id];
+                  if (mark?.kind === 'cluster') {
+                    // drawn once, with the first member; the ticks below mark where each member really is
+                    if (mark.events[0].id !== e.id) return null;
+                    const members = mark.events.map((m) => ({ kind: 'event', id: m.id }) as ChartItem);
+                    const current = members.find((m) => tabItem && itemKey(m) === itemKey(tabItem));
+                    if (offChart(mark.x) && !current) return null;
+                    const clusterFocused = !!current && focusedKey === itemKey(current);
+                    const clusterFound = mark.events.some((m) => matches?.has(m.id));
                     return (
                       <g
-                        key={e.id}
-                        transform={`translate(${x}, ${cy})`}
-                        className="cursor-pointer"
+                        key={mark.id}
+                        ref={(el) => {
+                          for (const m of members) {
+                            if (el) itemRefs.current.set(itemKey(m), el);
+                            else itemRefs.current.delete(itemKey(m));
+                          }
+                        }}
+                        tabIndex={current ? 0 : -1}
+                        role="button"
+                        aria-label={`${mark.events.length} ${def.label.toLowerCase()} events, ${eventDates(mark.events[0])} to ${eventDates(mark.events[mark.events.length - 1])}. Press Enter to expand.`}
+                        aria-describedby={clusterFocused ? tooltipId : undefined}
+                        transform={`translate(${mark.x}, ${cy})`}
+                        opacity={matches && !clusterFound ? 0.2 : 1}
+                        className="cursor-pointer outline-none"
                         onMouseEnter={(evt) => {
                           const lp = localPoint(evt) as { x: number; y: number };
-                          setHover({
-                            x: lp.x,
-                            y: lp.y,
-                            content: (
-                              <div>
-                                <div className="font-semibold">{e.label}</div>
-                                <div className="opacity-80">{format(new Date(e.timestamp), 'PP p')}</div>
-                                {e.meta && (
-                                  <pre className="mt-1 text-[10px] text-slate-300/80 whitespace-pre-wrap">
-                                    {JSON.stringify(e.meta, null, 2)}
-                                  </pre>
-                                )}
-                              </div>
-                            ),
-                          });
+                          setHover({ x: lp.x, y: lp.y, content: clusterTooltip(mark) });
                         }}
                         onMouseLeave={() => setHover(null)}
-                        onClick={() => {}}
+                        onClick={() => {
+                          setHover(null);
+                          expandCluster(mark);
+                        }}
+                        onFocus={(ev) => {
+                          setFocusItem(current ?? members[0]);
+                          setKeyboardFocus(ev.currentTarget.matches(':focus-visible'));
+                        }}
+                        onBlur={() => setKeyboardFocus(false)}
+                        onKeyDown={(ev) => {
+                          const it = current ?? members[0];
+                          if (ev.key === 'Enter' || ev.key === ' ') {
+                            ev.preventDefault();
+                            expandCluster(mark);
+                            setPendingFocus(itemKey(it));
+                          } else onItemKeyDown(ev, it);
+                        }}
                       >
-                        {/* BIG HIT AREA for easy hover/click */}
-                        <circle r={30} fill="transparent" stroke="transparent" style={{ pointerEvents: 'all' }} />
+                        <circle r={EVENT_SPACING / 2} fill="transparent" style={{ pointerEvents: 'all' }} />
 
-                        {/* dashed guide into metrics area */}
+                        {/* extent of the members */}
                         <line
-                          x1={0}
-                          x2={0}
-                          y1={guideY1 - cy}
-                          y2={guideY2 - cy}
-                          stroke={nodeColor}
-                          strokeOpacity={0.45}
-                          strokeDasharray="4 6"
+                          x1={mark.x0 - mark.x}
+                          x2={mark.x1 - mark.x}
+                          y1={NODE_R + 6}
+                          y2={NODE_R + 6}
+                          stroke={def.color}
+                          strokeOpacity={0.6}
+                          strokeWidth={2}
                         />
+                        {mark.events.map((m) => (
+                          <circle
+                            key={m.id}
+                            cx={xScale(new Date(m.timestamp)) - mark.x}
+                            cy={NODE_R + 6}
+                            r={2.5}
+                            fill={def.colorFor?.(m) ?? def.color}
+                          />
+                        ))}
 
-                        {/* outer glow */}
-                        <circle r={26} fill="none" stroke={nodeColor} strokeOpacity={0.25} />
+                        {/* stacked disks with the count */}
+                        <circle cx={5} cy={-5} r={NODE_R} fill={def.color} fillOpacity={0.35} stroke="#0b0f1c" />
+                        <circle r={NODE_R} fill={def.color} stroke="#0b0f1c" strokeWidth={2} />
+                        <text dy="0.35em" textAnchor="middle" fontSize={14} fontWeight={700} fill="#e6f4ff">
+                          {mark.events.length}
+                        </text>
 
-                        {/* main disk */}
-                        <circle r={20} fill={nodeColor} stroke="#0b0f1c" strokeWidth={2} />
+                        {clusterFound && <circle r={NODE_R + 5} fill="none" stroke={SEARCH_COLOR} strokeWidth={3} />}
+                        {mark.events.some((m) => m.id === selectedId) && (
+                          <circle r={NODE_R + 9} fill="none" stroke="#e6f4ff" strokeWidth={2} />
+                        )}
+                        {clusterFocused && (
+                          <circle r={NODE_R + 14} fill="none" stroke="#ffb020" strokeWidth={2} strokeDasharray="5 3" />
+                        )}
+                      </g>
+                    );
+                  }
+
+                  // nudged off its neighbours: a leader runs back to the true time
+                  const px = mark?.px ?? x;
+                  if (offChart(px) && !(tabItem && itemKey(tabItem) === itemKey(item))) return null;
+                  const dx = x - px;
+                  const nudged = Math.abs(dx) > 1;
+                  const leaderY = NODE_R + 8;
+
+                  return (
+                    <g
+                      key={e.id}
+                      {...a11y}
+                      transform={`translate(${px}, ${cy})`}
+                      opacity={dimmed(e) ? 0.2 : 1}
+                      className="cursor-pointer outline-none"
+                      onMouseEnter={onEnter}
+                      onMouseLeave={onLeave}
+                      onClick={() => selectEvent(e)}
+                    >
+                      {/* hit area, no wider than the gap to the next event so hover picks the right one */}
+                      <circle
+                        r={EVENT_SPACING / 2}
+                        fill="transparent"
+                        stroke="transparent"
+                        style={{ pointerEvents: 'all' }}
+                      />
+
+                      {nudged && (
+                        <>
+                          <line x1={0} y1={NODE_R} x2={dx} y2={leaderY} stroke={nodeColor} strokeOpacity={0.8} />
+                          <circle cx={dx} cy={leaderY} r={2.5} fill={nodeColor} />
+                        </>
+                      )}
 
-                        {/* inner contrast disk to help icons pop */}
-                        <circle r={16} fill="#0d1629" opacity={0.3} />
+                      {/* dashed guide into metrics area */}
+                      <line
+                        x1={dx}
+                        x2={dx}
+                        y1={nudged ? leaderY : guideY1 - cy}
+                        y2={guideY2 - cy}
+                        stroke={nodeColor}
+                        strokeOpacity={0.45}
+                        strokeDasharray="4 6"
+                      />
+
+                      {/* outer glow, or the search highlight */}
+                      {found ? (
+                        <circle r={25} fill="none" stroke={SEARCH_COLOR} strokeWidth={3} />
+                      ) : (
+                        <circle r={26} fill="none" stroke={nodeColor} strokeOpacity={0.25} />
+                      )}
 
-                        {/* icon (centered) */}
-                        <g transform="translate(-12,-12)">
-                          <Icon size={24} color="#e6f4ff" strokeWidth={2} />
-                        </g>
+                      {/* main disk */}
+                      <circle r={20} fill={nodeColor} stroke="#0b0f1c" strokeWidth={2} />
+
+                      {/* inner contrast disk to help icons pop */}
+                      <circle r={16} fill="#0d1629" opacity={0.3} />
 
-                        {/* hover halo */}
-                        <circle r={32} fill="none" stroke={nodeColor} strokeOpacity={0.18} />
+                      {/* icon (centered) */}
+                      <g transform="translate(-12,-12)">
+                        <Icon size={24} color="#e6f4ff" strokeWidth={2} />
                       </g>
-                    );
-                  })}
 
-                  {projection &&
-                    enabledSeries[projection.metricId] &&
-                    (() => {
-                      const id = projection.metricId;
+                      {/* hover halo */}
+                      <circle r={32} fill="none" stroke={nodeColor} strokeOpacity={0.18} />
 
-                      const yFor = (val: number) => {
-                        if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(val);
-                        if (autoScaleMode === 'GROUP' && yGroup) return yGroup(val);
-                        const { min, max } = visibleExtents[id]; // normalized fallback
-                        const norm = ((val - min) / (max - min)) * 100;
-                        return yNormalized(norm);
-                      };
+                      {/* selection ring */}
+                      {e.id === selectedId && <circle r={29} fill="none" stroke="#e6f4ff" strokeWidth={2} />}
 
-                      const anchor = lastPointOf(id);
-                      if (!anchor) return null;
-                      const x1 = xScale(anchor.t);
-                      const y1 = yFor(anchor.v);
+                      {/* keyboard focus ring */}
+                      {focused && <circle r={34} fill="none" stroke="#ffb020" strokeWidth={2} strokeDasharray="5 3" />}
+                    </g>
+                  );
+                })}
+              </g>
+
+              {/* guide shading under the metrics area (projection runway) */}
+              {runwayOn && (
+                <rect
+                  x={baseRangeRight}
+                  y={topPad + rows * rowHeight}
+                  width={Math.max(0, totalWidth - rightPad - baseRangeRight)}
+                  height={metricsHeight}
+                  fill="#1b2642"
+                  opacity={0.12}
+                  pointerEvents="none"
+                />
+              )}
+
+              {/* forecasts: shaded 95% prediction interval + dotted trend into the runway */}
+              {filteredSeries.map((s) => {
+                const model = forecastModels[s.id];
+                const anchor = lastPointOf(s.id);
+                if (!model || !anchor) return null;
+                const horizon = xScale.invert(totalWidth - rightPad);
+                if (horizon <= anchor.t) return null;
+                const samples = sampleForecast(model, anchor.t, horizon);
+                const color = metricDefs[s.id].color;
+                return (
+                  <g key={`forecast-${s.id}`} clipPath={`url(#${metricsClipId})`} pointerEvents="none">
+                    <Area
+                      data={samples}
+                      x={(d) => xScale(d.t)}
+                      y0={(d) => yOf(s.id, d.lower)}
+                      y1={(d) => yOf(s.id, d.upper)}
+                      fill={color}
+                      fillOpacity={0.12}
+                    />
+                    <LinePath
+                      data={samples}
+                      x={(d) => xScale(d.t)}
+                      y={(d) => yOf(s.id, d.value)}
+                      stroke={color}
+                      strokeWidth={2}
+                      strokeDasharray="2 4"
+                      strokeOpacity={0.8}
+                    />
+                  </g>
+                );
+              })}
+
+              {projections
+                .filter((projection) => seriesOn(projection.metricId))
+                .map((projection) => {
+                  const id = projection.metricId;
+
+                  const yFor = (val: number) => {
+                    if (autoScaleMode === 'SINGLE' && ySingle) return ySingle(val);
+                    if (autoScaleMode === 'GROUP' && yGroup) return yGroup(val);
+                    const { min, max } = visibleExtents[id]; // normalized fallback
+                    const norm = ((val - min) / (max - min)) * 100;
+                    return yNormalized(norm);
+                  };
+
+                  const anchor = lastPointOf(id);
+                  if (!anchor) return null;
+                  const x1 = xScale(anchor.t);
+                  const y1 = yFor(anchor.v);
+
+                  // Calculate x2Draw and y2Draw based on projection deltas
+                  const x2Draw = x1 + projection.dx;
+                  const y2Draw = y1 - projection.dy;
+
+                  return (
+                    <g key={id} style={{ pointerEvents: 'all' }} data-no-pan>
+                      {/* dashed projection */}
+                      <line
+                        x1={x1}
+                        y1={y1}
+                        x2={x2Draw}
+                        y2={y2Draw}
+                        stroke={metricDefs[id].color}
+                        strokeWidth={5}
+                        strokeDasharray="8 8"
+                        opacity={0.95}
+                        pointerEvents="none"
+                      />
+
+                      {/* Drag layer for the segment + knob */}
+                      <Drag
+                        x={projection.dx + x1}
+                        y={y1 - projection.dy}
+                        width={totalWidth}
+                        height={chartH}
+                        onDragStart={() => setPanDisabled(true)}
+                        onDragEnd={() => setPanDisabled(false)}
+                        onDragMove={({ event }) => {
+                          if (event == null) return;
+
+                          const { clientX, clientY } = getClientXY(event);
+                          const { x: cx, y: cy } = toContentXY(clientX, clientY);
+
+                          // 2) clamp to your metrics band
+                          const metricsTop = topPad + rows * rowHeight + 10;
+                          const metricsBottom = topPad + rows * rowHeight + metricsHeight - 10;
+
+                          const cxc = Math.max(paddingLeft + 6, Math.min(totalWidth - rightPad - 6, cx));
+                          const cyc = Math.max(metricsTop, Math.min(metricsBottom, cy));
+
+                          // 3) compute deltas in content space
+                          const nextDx = cxc - x1; // right = +
+                          const nextDy = y1 - cyc; // up = + (SVG Y grows downward)
+
+                          // 4) rAF-throttle state updates for smooth animation
+                          pendingRef.current = { metricId: id, dx: nextDx, dy: nextDy };
+                          if (rafRef.current == null) {
+                            rafRef.current = requestAnimationFrame(() => {
+                              const p = pendingRef.current;
+                              if (p) setProjections((prev) => prev.map((q) => (q.metricId === p.metricId ? p : q)));
+                              pendingRef.current = null;
+                              rafRef.current = null;
+                            });
+                          }
+
+                          // 5) grow runway when approaching edge
+                          if (cxc > baseRangeRight + runwayPx - 150) {
+                            setRunwayPx((r) => r + 400);
+                          }
+                        }}
+                      >
+                        {({ dragStart, dragEnd, dragMove, isDragging }) => {
+                          const handleX = x1 + projection.dx;
+                          const handleY = y1 - projection.dy;
 
-                      // Calculate x2Draw and y2Draw based on projection deltas
-                      const x2Draw = x1 + projection.dx;
-                      const y2Draw = y1 - projection.dy;
+                          // live projection readout (date + value + delta)
+                          const projDate = dateFromDx(projection.dx, anchor.t);
+                          const projVal = valueFromY(handleY, id);
+                          const delta = projVal - anchor.v;
 
-                      const minX = paddingLeft + 6;
-                      const maxX = totalWidth - rightPad - 6;
-                      const minY = 6;
-                      const maxY = chartH - 6;
-                      const metricsTop = topPad + rows * rowHeight + 10;
-                      const metricsBottom = topPad + rows * rowHeight + metricsHeight - 10;
+                          const unit = metricDefs[id].unit ?? '';
 
-                      const x2Right = Math.max(x2Draw, x1 + 10);
-                      const y2Right = Math.max(metricsTop, Math.min(metricsBottom, y2Draw));
+                          // derived changes this projection drives, listed as assumptions
+                          const effects = derivedProjections.flatMap((d) =>
+                            d.contributions.filter((c) => c.from === id).map((c) => ({ metricId: d.metricId, ...c }))
+                          );
+                          // data-driven expectation at the same date, when a forecast is on
+                          const expected = forecastModels[id]?.predict(projDate);
+                          const expectedH = expected ? 16 : 0;
+                          const labelW = effects.length ? 270 : expected ? 220 : 190;
+                          const labelH = 64 + expectedH + effects.length * 28;
+                          return (
+                            <g>
+                              {isDragging && (
+                                <rect
+                                  x={0}
+                                  y={0}
+                                  width={totalWidth}
+                                  height={chartH}
+                                  fill="transparent"
+                                  pointerEvents="all"
+                                  onMouseMove={dragMove}
+                                  onMouseUp={dragEnd}
+                                  onTouchMove={dragMove}
+                                  onTouchEnd={dragEnd}
+                                />
+                              )}
+                              {/* fat (nearly invisible) hit line so you can grab anywhere */}
+                              <line
+                                x1={x1}
+                                y1={y1}
+                                x2={x1 + projection.dx}
+                                y2={y1 - projection.dy}
+                                stroke={metricDefs[id].color}
+                                strokeWidth={16}
+                                strokeOpacity={0.001}
+                                pointerEvents="stroke"
+                                onMouseDown={dragStart}
+                                onMouseMove={dragMove}
+                                onMouseUp={dragEnd}
+                                onTouchStart={dragStart}
+                                onTouchMove={dragMove}
+                                onTouchEnd={dragEnd}
+                              />
 
-                      console.log('Rendering Projection with:', { x1, y1, x2Draw, y2Draw, projection }); // ADDED
+                              {/* handle: large hit circle + visible knob */}
+                              <circle
+                                cx={x1 + projection.dx}
+                                cy={y1 - projection.dy}
+                                r={22}
+                                fill="#fff"
+                                fillOpacity={0.001}
+                                className="cursor-grab"
+                                pointerEvents="all"
+                                onMouseDown={dragStart}
+                                onMouseMove={dragMove}
+                                onMouseUp={dragEnd}
+                                onTouchStart={dragStart}
+                                onTouchMove={dragMove}
+                                onTouchEnd={dragEnd}
+                              />
+                              <circle
+                                cx={x1 + projection.dx}
+                                cy={y1 - projection.dy}
+                                r={8}
+                                fill={metricDefs[id].color}
+                                stroke="#0b0f1c"
+                                strokeWidth={2}
+                                pointerEvents="none"
+                              />
 
-                      return (
-                        <g style={{ pointerEvents: 'all' }}>
-                          {/* guide shading under the metrics area*/}
-                          <rect
-                            x={baseRangeRight}
-                            y={topPad + rows * rowHeight}
-                            width={Math.max(0, totalWidth - rightPad - baseRangeRight)}
-                            height={metricsHeight}
-                            fill="#1b2642"
-                            opacity={0.12}
-                            pointerEvents="none"
-                          />
+                              {/* simple label showing deltas */}
+                              <g transform={`translate(${handleX + 14}, ${handleY - 10})`} pointerEvents="none">
+                                <rect
+                                  x={0}
+                                  y={-28}
+                                  rx={6}
+                                  ry={6}
+                                  width={labelW}
+                                  height={labelH}
+                                  fill="#0f172a"
+                                  stroke="#1f2a44"
+                                />
+                                <text x={10} y={-10} fill="#e2e8f0" fontSize={12} fontWeight={700}>
+                                  {metricDefs[id].label}: {projVal.toFixed(1)} {unit}
+                                </text>
+                                <text x={10} y={6} fill="#94a3b8" fontSize={11}>
+                                  {delta >= 0 ? '+' : ''}
+                                  {delta.toFixed(1)} {unit} from {anchor.v.toFixed(1)}
+                                </text>
+                                <text x={10} y={22} fill="#94a3b8" fontSize={11}>
+                                  {format(projDate, 'PP')}
+                                </text>
+                                {expected && (
+                                  <text x={10} y={38} fill="#94a3b8" fontSize={11}>
+                                    trend expects {expected.value.toFixed(1)} ({expected.lower.toFixed(1)}–
+                                    {expected.upper.toFixed(1)})
+                                  </text>
+                                )}
+                                {effects.map((fx, i) => {
+                                  const toUnit = metricDefs[fx.metricId]?.unit ?? '';
+                                  const { coefficient, note } = fx.relationship;
+                                  return (
+                                    <g key={fx.metricId} transform={`translate(10, ${40 + expectedH + i * 28})`}>
+                                      <text fill={metricDefs[fx.metricId]?.color} fontSize={11}>
+                                        → {metricDefs[fx.metricId]?.label ?? fx.metricId} {fx.delta >= 0 ? '+' : ''}
+                                        {fx.delta.toFixed(1)} {toUnit}
+                                      </text>
+                                      <text y={13} fill="#64748b" fontSize={10}>
+                                        assumes {coefficient} {toUnit} per {unit || 'unit'}
+                                        {note ? ` · ${note}` : ''}
+                                      </text>
+                                    </g>
+                                  );
+                                })}
+                              </g>
+
+                              {/* delete control (top-right of the label) */}
+                              <g
+                                transform={`translate(${handleX + 14 + labelW - 14}, ${handleY - 10 - 28 + 14})`}
+                                className="cursor-pointer"
+                                onClick={() => removeProjection(id)}
+                              >
+                                <title>Remove projection</title>
+                                <circle r={9} fill="#1f2a44" stroke={metricDefs[id].color} strokeOpacity={0.6} />
+                                <path d="M-3.5,-3.5 L3.5,3.5 M3.5,-3.5 L-3.5,3.5" stroke="#e2e8f0" strokeWidth={1.5} />
+                              </g>
+                            </g>
+                          );
+                        }}
+                      </Drag>
+                    </g>
+                  );
+                })}
+
+              {/* derived (what-if) projections: thinner dashes, not draggable */}
+              {derivedProjections
+                .filter((d) => seriesOn(d.metricId))
+                .map((d) => {
+                  const anchor = lastPointOf(d.metricId);
+                  if (!anchor) return null;
+                  const color = metricDefs[d.metricId].color;
+                  const x1 = xScale(anchor.t);
+                  const y1 = yOf(d.metricId, anchor.v);
+                  const x2 = xScale(d.t);
+                  const y2 = yOf(d.metricId, anchor.v + d.delta);
+                  return (
+                    <g key={`derived-${d.metricId}`} pointerEvents="none">
+                      <line
+                        x1={x1}
+                        y1={y1}
+                        x2={x2}
+                        y2={y2}
+                        stroke={color}
+                        strokeWidth={3}
+                        strokeDasharray="3 7"
+                        opacity={0.75}
+                      />
+                      <circle cx={x2} cy={y2} r={5} fill="#0f172a" stroke={color} strokeWidth={2} />
+                      <text x={x2 + 10} y={y2} dy="0.35em" fill={color} fontSize={11}>
+                        {(anchor.v + d.delta).toFixed(1)} {metricDefs[d.metricId].unit ?? ''} (derived)
+                      </text>
+                    </g>
+                  );
+                })}
+
+              {/* Left Axis (SINGLE or GROUP) */}
+              {(autoScaleMode === 'SINGLE' || autoScaleMode === 'GROUP') && (ySingle || yGroup) && (
+                <g>
+                  <g transform={`translate(${paddingLeft},0)`}>
+                    <AxisLeft
+                      scale={autoScaleMode === 'SINGLE' ? ySingle! : yGroup!}
+                      stroke={axisStroke}
+                      tickStroke={axisStroke}
+                      tickComponent={({ x, y, formattedValue }) => (
+                        <g transform={`translate(${x}, ${y})`}>
+                          <text fontSize={12} fontWeight={600} fill={axisLabel} textAnchor="end" dx="{-20}" dy="0.35em">
+                            {formattedValue}
+                          </text>
+                        </g>
+                      )}
+                    />
+                  </g>
 
-                          {/* dashed projection */}
+                  {/* Axis unit label */}
+                  {activeGroup && (
+                    <text
+                      x={paddingLeft + 200}
+                      y={topPad + rowHeight * rows + metricsHeight / 2}
+                      fill={axisLabel}
+                      fontSize={18}
+                      transform={`rotate(-90, ${paddingLeft - 25}, ${topPad + rowHeight * rows + metricsHeight / 2})`}
+                      textAnchor="middle"
+                    >
+                      {unitGroupAxis[activeGroup]?.label ?? metricDefs[activeMetricIds[0]]?.unit ?? activeGroup}
+                    </text>
+                  )}
+                </g>
+              )}
+
+              {/* Annotations: date and range notes fly a flag above the lanes, reading notes one from the point */}
+              <g role="group" aria-label="Annotations">
+                {draftSpan && (
+                  <rect
+                    x={draftSpan[0]}
+                    y={topPad}
+                    width={draftSpan[1] - draftSpan[0]}
+                    height={rows * rowHeight + metricsHeight}
+                    fill={NOTE_COLOR}
+                    fillOpacity={0.12}
+                    stroke={NOTE_COLOR}
+                    strokeDasharray="4 4"
+                    pointerEvents="none"
+                  />
+                )}
+                {(() => {
+                  const [r0, r1] = xScale.range();
+                  const baseline = topPad + rows * rowHeight + metricsHeight;
+                  const rowEnds = [-Infinity, -Infinity]; // right edge of the last callout in each flag row
+                  return [...annotations]
+                    .sort((a, b) => anchorTime(a.anchor) - anchorTime(b.anchor))
+                    .map((note) => {
+                      const a = note.anchor;
+                      const x = xScale(anchorTime(a));
+                      const xEnd = a.kind === 'range' ? xScale(new Date(a.end)) : x;
+                      if (xEnd < r0 || x > r1) return null;
+                      const px = Math.max(r0, x);
+                      const label = note.text.length > 28 ? `${note.text.slice(0, 27)}…` : note.text;
+                      const w = Math.min(180, label.length * 6 + 16);
+
+                      // where the pole stands and where its callout sits; a note whose reading is gone
+                      // stands on its date instead, marked as orphaned
+                      let foot = baseline;
+                      let top: number;
+                      let onReading = false;
+                      if (a.kind === 'point') {
+                        const s = filteredSeries.find((m) => m.id === a.seriesId);
+                        if (!s) return null;
+                        const i = pinnedReading(pointTimes[s.id], a.t);
+                        onReading = i >= 0;
+                        if (onReading) foot = yOf(s.id, s.points[i].value);
+                      }
+                      const orphaned = a.kind === 'point' && !onReading;
+                      if (onReading) {
+                        top = foot - 30 - NOTE_H;
+                      } else {
+                        const row = rowEnds[0] < px ? 0 : 1;
+                        rowEnds[row] = px + w;
+                        top = 6 + row * (NOTE_H + 8);
+                      }
+                      const selected = note.id === noteId;
+                      return (
+                        <g
+                          key={note.id}
+                          role="note"
+                          aria-label={`Note by ${note.author} on ${anchorLabel(a)}${orphaned ? ` ${ORPHANED}` : ''}: ${note.text}`}
+                          data-no-pan
+                        >
+                          {a.kind === 'range' && (
+                            <rect
+                              x={px}
+                              y={topPad}
+                              width={Math.max(2, Math.min(r1, xEnd) - px)}
+                              height={rows * rowHeight + metricsHeight}
+                              fill={NOTE_COLOR}
+                              fillOpacity={selected ? 0.16 : 0.07}
+                              pointerEvents="none"
+                            />
+                          )}
                           <line
-                            x1={x1}
-                            y1={y1}
-                            x2={x2Draw}
-                            y2={y2Draw}
-                            stroke={seriesColor[id]}
-                            strokeWidth={5}
-                            strokeDasharray="8 8"
-                            opacity={0.95}
+                            x1={px}
+                            x2={px}
+                            y1={top + NOTE_H}
+                            y2={foot}
+                            stroke={NOTE_COLOR}
+                            strokeOpacity={0.7}
+                            strokeDasharray={onReading ? undefined : '2 4'}
                             pointerEvents="none"
                           />
-
-                          {/* Drag layer for the segment + knob */}
-                          <Drag
-                            x={projection.dx + x1}
-                            y={y1 - projection.dy}
-                            width={totalWidth}
-                            height={chartH}
-                            onDragStart={() => setPanDisabled(true)}
-                            onDragEnd={() => setPanDisabled(false)}
-                            onDragMove={({ event }) => {
-                              if (event == null) return;
-
-                              const { clientX, clientY } = getClientXY(event);
-                              const { x: cx, y: cy } = toContentXY(clientX, clientY);
-
-                              // 2) clamp to your metrics band
-                              const metricsTop = topPad + rows * rowHeight + 10;
-                              const metricsBottom = topPad + rows * rowHeight + metricsHeight - 10;
-
-                              const cxc = Math.max(paddingLeft + 6, Math.min(totalWidth - rightPad - 6, cx));
-                              const cyc = Math.max(metricsTop, Math.min(metricsBottom, cy));
-
-                              // 3) compute deltas in content space
-                              const nextDx = cxc - x1; // right = +
-                              const nextDy = y1 - cyc; // up = + (SVG Y grows downward)
-
-                              // 4) rAF-throttle state updates for smooth animation
-                              pendingRef.current = { dx: nextDx, dy: nextDy };
-                              if (rafRef.current == null) {
-                                rafRef.current = requestAnimationFrame(() => {
-                                  const p = pendingRef.current;
-                                  if (p) setProjection((prev) => (prev ? { ...prev, ...p } : prev));
-                                  pendingRef.current = null;
-                                  rafRef.current = null;
-                                });
-                              }
-
-                              // 5) grow runway when approaching edge
-                              if (cxc > baseRangeRight + runwayPx - 150) {
-                                setRunwayPx((r) => r + 400);
-                              }
+                          {onReading && (
+                            <circle cx={px} cy={foot} r={5} fill="none" stroke={NOTE_COLOR} strokeWidth={2} />
+                          )}
+                          <g
+                            transform={`translate(${px}, ${top})`}
+                            className="cursor-pointer"
+                            onClick={() => setNoteId(selected ? null : note.id)}
+                            onMouseEnter={(evt) => {
+                              const lp = localPoint(evt) as { x: number; y: number };
+                              setHover({
+                                x: lp.x,
+                                y: lp.y,
+                                content: (
+                                  <div>
+                                    <div className="opacity-80">{anchorLabel(a)}</div>
+                                    {orphaned && <div className="text-amber-300">{ORPHANED}</div>}
+                                    <div className="whitespace-pre-wrap">{note.text}</div>
+                                    <div className="mt-1 opacity-60">
+                                      {note.author}, {format(new Date(note.createdAt), 'PP p')}
+                                      {note.editedAt && ' (edited)'}
+                                    </div>
+                                  </div>
+                                ),
+                              });
                             }}
+                            onMouseLeave={() => setHover(null)}
                           >
-                            {({ dragStart, dragEnd, dragMove, isDragging }) => {
-                              const handleX = x1 + projection.dx;
-                              const handleY = y1 - projection.dy;
-
-                              // live projection readout (date + value + delta)
-                              const projDate = dateFromDx(projection.dx, anchor.t);
-                              const projVal = valueFromY(handleY, id);
-                              const delta = projVal - anchor.v;
-
-                              const series = metricSeries.find((s) => s.id === id)!;
-                              const unit = series.unit || (unitGroup[id] === 'lbs' ? 'lbs' : '');
-                              return (
-                                <g>
-                                  {isDragging && (
-                                    <rect
-                                      x={0}
-                                      y={0}
-                                      width={totalWidth}
-                                      height={chartH}
-                                      fill="transparent"
-                                      pointerEvents="all"
-                                      onMouseMove={dragMove}
-                                      onMouseUp={dragEnd}
-                                      onTouchMove={dragMove}
-                                      onTouchEnd={dragEnd}
-                                    />
-                                  )}
-                                  {/* fat (nearly invisible) hit line so you can grab anywhere */}
-                                  <line
-                                    x1={x1}
-                                    y1={y1}
-                                    x2={x1 + projection.dx}
-                                    y2={y1 - projection.dy}
-                                    stroke={seriesColor[id]}
-                                    strokeWidth={16}
-                                    strokeOpacity={0.001}
-                                    pointerEvents="stroke"
-                                    onMouseDown={dragStart}
-                                    onMouseMove={dragMove}
-                                    onMouseUp={dragEnd}
-                                    onTouchStart={dragStart}
-                                    onTouchMove={dragMove}
-                                    onTouchEnd={dragEnd}
-                                  />
-
-                                  {/* handle: large hit circle + visible knob */}
-                                  <circle
-                                    cx={x1 + projection.dx}
-                                    cy={y1 - projection.dy}
-                                    r={22}
-                                    fill="#fff"
-                                    fillOpacity={0.001}
-                                    className="cursor-grab"
-                                    pointerEvents="all"
-                                    onMouseDown={dragStart}
-                                    onMouseMove={dragMove}
-                                    onMouseUp={dragEnd}
-                                    onTouchStart={dragStart}
-                                    onTouchMove={dragMove}
-                                    onTouchEnd={dragEnd}
-                                  />
-                                  <circle
-                                    cx={x1 + projection.dx}
-                                    cy={y1 - projection.dy}
-                                    r={8}
-                                    fill={seriesColor[id]}
-                                    stroke="#0b0f1c"
-                                    strokeWidth={2}
-                                    pointerEvents="none"
-                                  />
-
-                                  {/* simple label showing deltas */}
-                                  <g transform={`translate(${handleX + 14}, ${handleY - 10})`} pointerEvents="none">
-                                    <rect
-                                      x={0}
-                                      y={-28}
-                                      rx={6}
-                                      ry={6}
-                                      width={190}
-                                      height={64}
-                                      fill="#0f172a"
-                                      stroke="#1f2a44"
-                                    />
-                                    <text x={10} y={-10} fill="#e2e8f0" fontSize={12} fontWeight={700}>
-                                      {projVal.toFixed(1)} {unit}
-                                    </text>
-                                    <text x={10} y={6} fill="#94a3b8" fontSize={11}>
-                                      {delta >= 0 ? '+' : ''}
-                                      {delta.toFixed(1)} {unit} from {anchor.v.toFixed(1)}
-                                    </text>
-                                    <text x={10} y={22} fill="#94a3b8" fontSize={11}>
-                                      {format(projDate, 'PP')}
-                                    </text>
-                                  </g>
-                                </g>
-                              );
-                            }}
-                          </Drag>
+                            <rect
+                              width={w}
+                              height={NOTE_H}
+                              rx={4}
+                              fill="#1a1424"
+                              stroke={selected ? '#e6f4ff' : NOTE_COLOR}
+                              strokeWidth={selected ? 2 : 1}
+                            />
+                            <path d={`M0,0 l8,0 l-8,8 z`} fill={orphaned ? 'none' : NOTE_COLOR} stroke={NOTE_COLOR} />
+                            <text x={10} y={NOTE_H / 2} dy="0.35em" fontSize={11} fill="#fce7f3">
+                              {label}
+                            </text>
+                          </g>
                         </g>
                       );
-                    })()}
-
-                  {/* Left Axis (SINGLE or GROUP) */}
-                  {(autoScaleMode === 'SINGLE' || autoScaleMode === 'GROUP') && (ySingle || yGroup) && (
-                    <g>
-                      <g transform={`translate(${paddingLeft},0)`}>
-                        <AxisLeft
-                          scale={autoScaleMode === 'SINGLE' ? ySingle! : yGroup!}
-                          stroke={axisStroke}
-                          tickStroke={axisStroke}
-                          tickComponent={({ x, y, formattedValue }) => (
-                            <g transform={`translate(${x}, ${y})`}>
-                              <text
-                                fontSize={20}
-                                fontWeight={600}
-                                fill={axisLabel}
-                                textAnchor="end"
-                                dx="{-20}"
-                                dy="0.35em"
-                              >
-                                {formattedValue}
-                              </text>
-                            </g>
-                          )}
-                        />
-                      </g>
+                    });
+                })()}
+              </g>
+
+              {/* Axis */}
+              <g transform={`translate(0, ${topPad + rows * rowHeight + metricsHeight + 10})`}>
+                <AxisBottom
+                  scale={xScale}
+                  stroke={axisStroke}
+                  tickStroke={axisStroke}
+                  tickValues={axisTicks.ticks}
+                  tickFormat={(d) => formatTick(d as Date, axisTicks.level)}
+                  // You can keep tickLabelProps if you want, but tickComponent will win
+                  tickComponent={({ x, y, formattedValue }) => {
+                    const isYear = !isNaN(Number(formattedValue)); // e.g. "2022" → true, "Jan" → false
 
-                      {/* Axis unit label */}
-                      {activeGroup && (
+                    return (
+                      <g transform={`translate(${x}, ${y})`}>
                         <text
-                          x={paddingLeft + 200}
-                          y={topPad + rowHeight * rows + metricsHeight / 2}
-                          fill={axisLabel}
-                          fontSize={18}
-                          transform={`rotate(-90, ${paddingLeft - 25}, ${topPad + rowHeight * rows + metricsHeight / 2})`}
+                          fontSize={isYear ? 16 : 12}
+                          fontWeight={isYear ? 700 : 500}
+                          fill={isYear ? '#ffb020' : axisLabel} // year standout color
                           textAnchor="middle"
+                          dy={isYear ? '2em' : '1em'} // offset years lower
                         >
-                          {activeGroup === 'mmHg'
-                            ? 'mmHg'
-                            : activeGroup === 'lbs'
-                              ? 'lbs'
-                              : activeGroup === 'index100'
-                                ? 'Score (0–100)'
-                                : ''}
+                          {formattedValue}
                         </text>
-                      )}
-                    </g>
-                  )}
+                      </g>
+                    );
+                  }}
+                />
+              </g>
+            </svg>
+
+            <p id={`${tooltipId}-help`} className="sr-only">
+              Use the arrow keys to move between events and metric readings. Left and right move in time, up and down
+              switch between the events and each metric, and Enter opens an event. N adds a note to the selected event
+              or reading. The Table button lists the same data as text.
+            </p>
+
+            <ChartTooltip ref={tooltipRef} id={tooltipId} fallback={focusTooltip} width={totalWidth} height={chartH} />
+          </div>
+        </div>
 
-                  {/* Axis */}
-                  <g transform={`translate(0, ${topPad + rows * rowHeight + metricsHeight + 10})`}>
-                    <AxisBottom
-                      scale={xScale}
-                      stroke={axisStroke}
-                      tickStroke={axisStroke}
-                      // You can keep tickLabelProps if you want, but tickComponent will win
-                      tickComponent={({ x, y, formattedValue }) => {
-                        const isYear = !isNaN(Number(formattedValue)); // e.g. "2022" → true, "Jan" → false
-
-                        return (
-                          <g transform={`translate(${x}, ${y})`}>
-                            <text
-                              fontSize={isYear ? 28 : 18}
-                              fontWeight={isYear ? 700 : 500}
-                              fill={isYear ? '#ffb020' : axisLabel} // year standout color
-                              textAnchor="middle"
-                              dy={isYear ? '2em' : '1em'} // offset years lower
-                            >
-                              {formattedValue}
-                            </text>
-                          </g>
-                        );
-                      }}
-                    />
-                  </g>
-                </svg>
-
-                {hover && (
-                  <div
-                    className="absolute z-30 pointer-events-none bg-[#0f172a] text-slate-100 border border-slate-700 rounded-md shadow px-3 py-2 text-xs"
-                    style={{
-                      left: clamp(hover.x + tooltipOffset, 8, totalWidth - 300),
-                      top: clamp(hover.y + tooltipOffset, 8, chartH - 100),
-                      maxWidth: 280,
-                    }}
-                  >
-                    {hover.content}
-                  </div>
-                )}
-              </TransformComponent>
-            </>
-          )}
-        </TransformWrapper>
+        {selectedEvent && (
+          <EventDetailPanel
+            event={selectedEvent}
+            typeDef={typeDefs[selectedEvent.type]}
+            previousOfType={previousOfType}
+            series={filteredSeries}
+            metricDefs={metricDefs}
+            onPrev={selectedIdx > 0 ? () => selectEvent(orderedEvents[selectedIdx - 1]) : undefined}
+            onNext={
+              selectedIdx < orderedEvents.length - 1 ? () => selectEvent(orderedEvents[selectedIdx + 1]) : undefined
+            }
+            onClose={() => setSelectedId(null)}
+          />
+        )}
       </div>
+
+      {importOpen && <ImportDialog metrics={metrics} onImport={commitImport} onClose={() => setImportOpen(false)} />}
+
+      <OverviewBrush
+        extent={[minDate, maxDate]}
+        value={viewDomain}
+        events={events}
+        series={filteredSeries}
+        metricDefs={metricDefs}
+        onChange={setCustomDomain}
+      />
+
+      {annotations.length > 0 && (
+        <AnnotationList
+          annotations={annotations}
+          metricDefs={metricDefs}
+          userId={userId}
+          selectedId={noteId}
+          onSelect={showAnnotation}
+          onEdit={editAnnotation}
+          onDelete={deleteAnnotation}
+        />
+      )}
+
+      {tableOn && (
+        <DataTable
+          events={orderedEvents}
+          series={filteredSeries}
+          domain={viewDomain}
+          typeDefs={typeDefs}
+          metricDefs={metricDefs}
+          rangesById={rangesById}
+          selectedId={selectedId}
+          onSelect={selectEvent}
+        />
+      )}
+
+      {impactOn && (
+        <ImpactSummary
+          impacts={impacts}
+          window={impactWindow}
+          metricDefs={metricDefs}
+          selectedId={selectedId}
+          onSelect={selectEvent}
+        />
+      )}
     </div>
   );
 };
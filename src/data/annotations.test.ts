@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Annotation, localAnnotationStore, pinnedReading } from './annotations';
+
+const note = (over: Partial<Annotation> = {}): Annotation => ({
+  id: 'note-1',
+  anchor: { kind: 'date', t: '2024-03-01' },
+  text: 'Started on metformin',
+  author: 'dr-lee',
+  createdAt: '2024-03-02T10:00:00Z',
+  ...over,
+});
+
+describe('localAnnotationStore', () => {
+  let stored: Record<string, string>;
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (k: string) => stored[k] ?? null,
+        setItem: (k: string, v: string) => (stored[k] = v),
+      },
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("keeps each record's notes under its own key", () => {
+    localAnnotationStore.save('MRN-1', [note()]);
+    expect(localAnnotationStore.load('MRN-1')).toEqual([note()]);
+    expect(localAnnotationStore.load('MRN-2')).toEqual([]);
+  });
+
+  it('drops notes whose dates cannot be read', () => {
+    const good = [
+      note(),
+      note({ id: 'range', anchor: { kind: 'range', start: '2024-01-01', end: '2024-02-01' } }),
+      note({ id: 'point', anchor: { kind: 'point', seriesId: 'weight', t: '2024-03-01T08:00:00Z' } }),
+    ];
+    const bad = [
+      note({ id: 'bad-date', anchor: { kind: 'date', t: 'yesterday' } }),
+      note({ id: 'bad-end', anchor: { kind: 'range', start: '2024-01-01', end: '' } }),
+      { ...note({ id: 'no-t' }), anchor: { kind: 'point', seriesId: 'weight' } },
+      { ...note({ id: 'bad-kind' }), anchor: { kind: 'week', t: '2024-03-01' } },
+      note({ id: 'bad-created', createdAt: 'soon' }),
+      note({ id: 'bad-edited', editedAt: 'later' }),
+    ];
+    stored['synoptic-timeline:annotations:MRN-1'] = JSON.stringify([...good, ...bad, null, 'note']);
+    expect(localAnnotationStore.load('MRN-1')).toEqual(good);
+  });
+
+  it('returns no notes for unreadable storage', () => {
+    stored['synoptic-timeline:annotations:MRN-1'] = '{not json';
+    expect(localAnnotationStore.load('MRN-1')).toEqual([]);
+  });
+});
+
+describe('pinnedReading', () => {
+  const ts = Float64Array.from(['2024-01-01T08:00:00Z', '2024-02-01T08:00:00Z', '2024-03-01T08:00:00Z'], (t) =>
+    new Date(t).getTime()
+  );
+
+  it("finds the reading with exactly the note's time", () => {
+    expect(pinnedReading(ts, '2024-02-01T08:00:00Z')).toBe(1);
+    expect(pinnedReading(ts, '2024-02-01T09:00:00+01:00')).toBe(1); // same instant, other offset
+  });
+
+  it('does not move the note to a neighbouring reading once its own is gone', () => {
+    expect(pinnedReading(ts, '2024-02-01T08:00:01Z')).toBe(-1);
+    expect(pinnedReading(ts, '2024-02-15T08:00:00Z')).toBe(-1);
+    expect(pinnedReading(ts, '2025-01-01T00:00:00Z')).toBe(-1);
+    expect(pinnedReading(new Float64Array(), '2024-02-01T08:00:00Z')).toBe(-1);
+  });
+});
@@ -0,0 +1,86 @@
+import { format } from 'date-fns';
+import { bisect } from './arrays';
+import type { MetricId } from './types';
+
+// what a note is pinned to: a moment, a stretch of time, or one metric reading (found by series and time)
+export type AnnotationAnchor =
+  | { kind: 'date'; t: string } // ISO
+  | { kind: 'range'; start: string; end: string }
+  | { kind: 'point'; seriesId: MetricId; t: string };
+
+export interface Annotation {
+  id: string;
+  anchor: AnnotationAnchor;
+  text: string;
+  author: string;
+  createdAt: string; // ISO
+  editedAt?: string;
+}
+
+// where a record's annotations live; swap in a server-backed store to share them between clinicians
+export interface AnnotationStore {
+  load: (recordId: string) => Annotation[];
+  save: (recordId: string, annotations: Annotation[]) => void;
+}
+
+const storageKey = (recordId: string) => `synoptic-timeline:annotations:${recordId}`;
+
+const isDate = (s: unknown) => typeof s === 'string' && !isNaN(new Date(s).getTime());
+
+// stored notes are drawn and formatted as they are, so one with an unreadable date is dropped on load
+const isAnchor = (a: Partial<AnnotationAnchor> | undefined) =>
+  a?.kind === 'range'
+    ? isDate(a.start) && isDate(a.end)
+    : a?.kind === 'date'
+      ? isDate(a.t)
+      : a?.kind === 'point' && typeof a.seriesId === 'string' && isDate(a.t);
+
+const isAnnotation = (a: Partial<Annotation> | null): a is Annotation =>
+  !!a &&
+  typeof a.id === 'string' &&
+  typeof a.text === 'string' &&
+  typeof a.author === 'string' &&
+  isDate(a.createdAt) &&
+  (a.editedAt === undefined || isDate(a.editedAt)) &&
+  isAnchor(a.anchor);
+
+export const localAnnotationStore: AnnotationStore = {
+  load(recordId) {
+    try {
+      const raw = window.localStorage.getItem(storageKey(recordId));
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter(isAnnotation) : [];
+    } catch {
+      return []; // unreadable or blocked storage
+    }
+  },
+  save(recordId, annotations) {
+    try {
+      window.localStorage.setItem(storageKey(recordId), JSON.stringify(annotations));
+    } catch {
+      // storage full or disabled; the notes just won't survive the reload
+    }
+  },
+};
+
+export const newAnnotationId = () => `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/** Start of the anchor, in ms. */
+export const anchorTime = (a: AnnotationAnchor) => new Date(a.kind === 'range' ? a.start : a.t).getTime();
+
+/**
+ * Index of the reading a point note is pinned to, in a series' ascending point times; -1 once that
+ * reading is gone (removed or re-imported with other times), so the note isn't moved to a neighbour.
+ */
+export function pinnedReading(ts: ArrayLike<number>, t: string): number {
+  const time = new Date(t).getTime();
+  const i = bisect(ts, time);
+  return i < ts.length && ts[i] === time ? i : -1;
+}
+
+export const describeAnchor = (a: AnnotationAnchor, seriesLabel?: string) =>
+  a.kind === 'range'
+    ? `${format(new Date(a.start), 'PP')} – ${format(new Date(a.end), 'PP')}`
+    : a.kind === 'point'
+      ? `${seriesLabel ?? a.seriesId} reading, ${format(new Date(a.t), 'PP p')}`
+      : format(new Date(a.t), 'PP');
@@ -0,0 +1,24 @@
+// helpers that stay safe on wearable-sized arrays (spreading 100k values into Math.min overflows the stack)
+
+/** [min, max] of the values; [Infinity, -Infinity] when there are none. */
+export function extent(values: Iterable<number>): [number, number] {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const v of values) {
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  return [lo, hi];
+}
+
+/** First index whose value is >= x in an ascending array (its length when there is none). */
+export function bisect(sorted: ArrayLike<number>, x: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
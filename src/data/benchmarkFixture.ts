@@ -0,0 +1,92 @@
+import type { MetricSeries, TimelineEvent, TimelineEventType } from './types';
+
+export interface BenchmarkOptions {
+  points?: number; // total metric points across all series (default 100k)
+  events?: number; // encounters, labs, medications... (default 400)
+  years?: number; // length of the record (default 3)
+  end?: Date; // last day of the record (default 2025-06-01, so every run gets the same data)
+  seed?: number; // same seed, same data
+}
+
+// small seeded PRNG (mulberry32) so benchmark runs are comparable
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// wearable streams and their share of the points: [id, label, unit, baseline, daily swing, noise, share]
+const STREAMS: [string, string, string, number, number, number, number][] = [
+  ['heartRate', 'Heart rate', 'bpm', 68, 14, 6, 0.6],
+  ['sleepScore', 'Sleep Score', '', 74, 0, 9, 0.1],
+  ['stressIndex', 'Stress Index', '', 45, 12, 8, 0.2],
+  ['weight', 'Weight', 'lbs', 190, 0, 1.2, 0.05],
+  ['systolic', 'BP Systolic', 'mmHg', 128, 8, 7, 0.025],
+  ['diastolic', 'BP Diastolic', 'mmHg', 82, 5, 5, 0.025],
+];
+
+const EVENT_MIX: [TimelineEventType, string[]][] = [
+  ['vital', ['Clinic visit', 'Telehealth check-in', 'Nurse visit']],
+  ['lab', ['Basic metabolic panel', 'Lipid panel', 'CBC', 'TSH']],
+  ['complaint', ['Fatigue', 'Headache', 'Back pain', 'Dizziness']],
+  ['medication', ['Metformin', 'Lisinopril', 'Atorvastatin']],
+  ['procedure', ['ECG', 'Colonoscopy', 'Dermatology excision']],
+  ['imaging', ['Chest X-ray', 'Knee MRI', 'Abdominal ultrasound']],
+  ['life', ['Started running', 'Job change', 'Moved house']],
+];
+
+const DAY = 86_400_000;
+const DEFAULT_END = new Date('2025-06-01T00:00:00Z');
+
+/**
+ * A wearables-scale record for exercising the high-volume rendering path: dense heart rate,
+ * sleep and stress streams plus a few hundred encounters, spread over the `years` before `end`.
+ */
+export function benchmarkFixture(opts: BenchmarkOptions = {}): { events: TimelineEvent[]; series: MetricSeries[] } {
+  const { points = 100_000, events: eventCount = 400, years = 3, seed = 1 } = opts;
+  const rnd = random(seed);
+  const end = (opts.end ?? DEFAULT_END).getTime();
+  const start = end - years * 365 * DAY;
+
+  const series = STREAMS.map(([id, label, unit, base, swing, noise, share]) => {
+    const n = Math.max(2, Math.round(points * share));
+    const step = (end - start) / n;
+    let drift = 0;
+    return {
+      id,
+      label,
+      unit: unit || undefined,
+      points: Array.from({ length: n }, (_, i) => {
+        const t = start + i * step;
+        drift = drift * 0.999 + (rnd() - 0.5) * noise * 0.05; // slow wander
+        const daily = Math.sin(((t % DAY) / DAY) * 2 * Math.PI) * swing;
+        return {
+          t: new Date(t).toISOString(),
+          value: Math.round((base + drift * 10 + daily + (rnd() - 0.5) * noise) * 10) / 10,
+        };
+      }),
+    };
+  });
+
+  const events: TimelineEvent[] = Array.from({ length: eventCount }, (_, i) => {
+    const [type, labels] = EVENT_MIX[Math.floor(rnd() * EVENT_MIX.length)];
+    const t = start + rnd() * (end - start);
+    const course = type === 'medication';
+    return {
+      id: `bench-${i}`,
+      type,
+      label: labels[Math.floor(rnd() * labels.length)],
+      timestamp: new Date(t).toISOString(),
+      ...(course && { end: new Date(Math.min(end, t + (30 + rnd() * 300) * DAY)).toISOString() }),
+      ...(type === 'life' && { meta: { valence: rnd() < 0.5 ? 'negative' : 'positive' } }),
+    };
+  });
+  events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return { events, series };
+}
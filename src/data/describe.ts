@@ -0,0 +1,53 @@
+import { format } from 'date-fns';
+import { bucketLabel, DrawnPoint, RollupLevel, rollupLabel } from './downsample';
+import type { EventTypeDefinition } from './eventTypeRegistry';
+import { formatRange, MetricDefinition, ReferenceRange } from './metricRegistry';
+import type { MetricPoint, TimelineEvent } from './types';
+
+// text alternatives for chart items, read out by screen readers and listed in the table view
+
+export const eventDates = (e: TimelineEvent) =>
+  e.end || e.ongoing
+    ? `${format(new Date(e.timestamp), 'PP')} – ${e.end ? format(new Date(e.end), 'PP') : 'ongoing'}`
+    : format(new Date(e.timestamp), 'PP');
+
+// "key: value; key: value" for the scalar parts of an event's meta
+export const metaSummary = (meta: TimelineEvent['meta']) =>
+  Object.entries(meta ?? {})
+    .filter(([, v]) => v != null && typeof v !== 'object')
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('; ');
+
+export const describeEvent = (e: TimelineEvent, def: EventTypeDefinition) =>
+  [`${def.label}: ${e.label}`, eventDates(e), e.segments?.length ? `${e.segments.length} dose changes` : '']
+    .filter(Boolean)
+    .join(', ');
+
+export const rangeStatus = (range: ReferenceRange | null | undefined, unit?: string) =>
+  range
+    ? `${range.severity === 'normal' ? 'in range' : 'out of range'}: ${range.label} (${formatRange(range)}${unit ? ` ${unit}` : ''})`
+    : '';
+
+export const describeReading = (def: MetricDefinition, p: MetricPoint, range?: ReferenceRange | null) =>
+  [
+    `${def.label} ${p.value}${def.unit ? ` ${def.unit}` : ''}`,
+    format(new Date(p.t), 'PP p'),
+    rangeStatus(range, def.unit),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export const describeBucket = (
+  def: MetricDefinition,
+  level: RollupLevel,
+  b: DrawnPoint,
+  range?: ReferenceRange | null
+) =>
+  [
+    `${def.label} ${rollupLabel[level].toLowerCase()} mean ${b.value.toFixed(1)}${def.unit ? ` ${def.unit}` : ''}`,
+    bucketLabel(level, b.start!),
+    `${b.count} readings from ${b.min} to ${b.max}`,
+    rangeStatus(range, def.unit),
+  ]
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,31 @@
+import { bench, describe } from 'vitest';
+import { benchmarkFixture } from './benchmarkFixture';
+import { seriesDetail } from './downsample';
+
+// the default #bench record: 100k readings over three years, 60k of them heart rate
+const { series } = benchmarkFixture();
+const heartRate = series.find((s) => s.id === 'heartRate')!;
+const ts = Float64Array.from(heartRate.points, (p) => new Date(p.t).getTime());
+const WIDTH = 1200; // plot width in px
+const DAY = 86_400_000;
+
+// the readings in the last `days` of the record, as the chart would window them
+const detail = (days: number) => () => {
+  const end = ts[ts.length - 1];
+  let lo = ts.length;
+  while (lo > 0 && ts[lo - 1] >= end - days * DAY) lo--;
+  seriesDetail(ts, heartRate.points, lo, ts.length, days * DAY, WIDTH);
+};
+
+describe('benchmarkFixture', () => {
+  bench('100k points, 400 events', () => {
+    benchmarkFixture();
+  });
+});
+
+describe('seriesDetail, 60k heart rate readings', () => {
+  bench('3 years (weekly rollup)', detail(3 * 365));
+  bench('1 year (weekly rollup)', detail(365));
+  bench('1 month (daily rollup)', detail(30));
+  bench('1 week (raw)', detail(7));
+});
@@ -0,0 +1,162 @@
+import { addDays, addMonths, addWeeks, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { MetricPoint } from './types';
+
+export type RollupLevel = 'day' | 'week' | 'month';
+// how a series is drawn at the current zoom: every reading, a shape-preserving subset, or calendar rollups
+export type DetailLevel = 'raw' | 'lttb' | RollupLevel;
+
+// one mark on the chart; rollup buckets carry their spread and size
+export interface DrawnPoint {
+  t: number; // ms; the bucket's midpoint for rollups
+  value: number; // the reading, or the bucket mean
+  index?: number; // position in the series (raw and lttb levels)
+  min?: number;
+  max?: number;
+  count?: number;
+  start?: number; // bucket bounds, ms
+  end?: number;
+}
+
+export interface SeriesDetail {
+  level: DetailLevel;
+  points: DrawnPoint[];
+  ts: Float64Array; // drawn times, ascending (for hover lookup)
+  stride: number; // readings per drawn point, on average
+}
+
+const MIN_PX_PER_POINT = 2; // denser than this and the series is reduced
+const MIN_BUCKET_PX = 4; // narrowest rollup bucket worth drawing
+const MIN_PER_BUCKET = 2; // fewer readings per bucket than this: a subset says more than a band
+
+const ROLLUPS: { level: RollupLevel; ms: number; start: (d: Date) => Date; next: (d: Date) => Date }[] = [
+  { level: 'day', ms: 86_400_000, start: startOfDay, next: (d) => addDays(d, 1) },
+  { level: 'week', ms: 7 * 86_400_000, start: (d) => startOfWeek(d, { weekStartsOn: 1 }), next: (d) => addWeeks(d, 1) },
+  { level: 'month', ms: 30.44 * 86_400_000, start: startOfMonth, next: (d) => addMonths(d, 1) },
+];
+
+export const rollupLabel: Record<RollupLevel, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+export const bucketLabel = (level: RollupLevel, start: number) =>
+  level === 'day'
+    ? format(start, 'PP')
+    : level === 'week'
+      ? `week of ${format(start, 'PP')}`
+      : format(start, 'MMMM yyyy');
+
+/**
+ * Largest-Triangle-Three-Buckets: indices of `threshold` points in [lo, hi) that keep the
+ * line's visual shape. The first and last points are always kept.
+ */
+export function lttb(
+  ts: ArrayLike<number>,
+  points: MetricPoint[],
+  lo: number,
+  hi: number,
+  threshold: number
+): number[] {
+  const n = hi - lo;
+  if (threshold >= n || threshold < 3) return Array.from({ length: n }, (_, i) => lo + i);
+  const out = [lo];
+  const every = (n - 2) / (threshold - 2);
+  let a = lo;
+  for (let b = 0; b < threshold - 2; b++) {
+    // average of the next bucket is the third triangle corner
+    const nextFrom = lo + Math.floor((b + 1) * every) + 1;
+    const nextTo = Math.min(hi, lo + Math.floor((b + 2) * every) + 1);
+    let avgT = 0;
+    let avgV = 0;
+    for (let i = nextFrom; i < nextTo; i++) {
+      avgT += ts[i];
+      avgV += points[i].value;
+    }
+    const len = Math.max(1, nextTo - nextFrom);
+    avgT /= len;
+    avgV /= len;
+
+    const from = lo + Math.floor(b * every) + 1;
+    const to = lo + Math.floor((b + 1) * every) + 1;
+    let best = from;
+    let bestArea = -1;
+    for (let i = from; i < to; i++) {
+      const area = Math.abs(
+        (ts[a] - avgT) * (points[i].value - points[a].value) - (ts[a] - ts[i]) * (avgV - points[a].value)
+      );
+      if (area > bestArea) {
+        bestArea = area;
+        best = i;
+      }
+    }
+    out.push(best);
+    a = best;
+  }
+  out.push(hi - 1);
+  return out;
+}
+
+/** Mean, min and max of the readings in [lo, hi) per calendar bucket. */
+export function rollup(
+  ts: ArrayLike<number>,
+  points: MetricPoint[],
+  lo: number,
+  hi: number,
+  level: RollupLevel
+): DrawnPoint[] {
+  const { start, next } = ROLLUPS.find((r) => r.level === level)!;
+  const out: DrawnPoint[] = [];
+  let bucket: DrawnPoint | null = null;
+  let sum = 0;
+  const close = () => {
+    if (bucket) out.push({ ...bucket, value: sum / bucket.count! });
+  };
+  for (let i = lo; i < hi; i++) {
+    const v = points[i].value;
+    if (!bucket || ts[i] >= bucket.end!) {
+      close();
+      const s = start(new Date(ts[i])).getTime();
+      const e = next(new Date(s)).getTime();
+      bucket = { t: (s + e) / 2, value: 0, min: v, max: v, count: 0, start: s, end: e };
+      sum = 0;
+    }
+    bucket.count!++;
+    sum += v;
+    if (v < bucket.min!) bucket.min = v;
+    if (v > bucket.max!) bucket.max = v;
+  }
+  close();
+  return out;
+}
+
+/**
+ * What to draw for the readings in [lo, hi) across `widthPx` pixels showing `spanMs` of time.
+ * Sparse windows are drawn as they are. Dense ones get the finest calendar rollup whose buckets are
+ * still a few pixels wide, or an LTTB subset when those buckets would hold only a reading or two.
+ */
+export function seriesDetail(
+  ts: Float64Array,
+  points: MetricPoint[],
+  lo: number,
+  hi: number,
+  spanMs: number,
+  widthPx: number
+): SeriesDetail {
+  const n = hi - lo;
+  const subset = (indices: number[], level: DetailLevel): SeriesDetail => ({
+    level,
+    points: indices.map((i) => ({ t: ts[i], value: points[i].value, index: i })),
+    ts: Float64Array.from(indices, (i) => ts[i]),
+    stride: n / Math.max(1, indices.length),
+  });
+  if (n * MIN_PX_PER_POINT <= widthPx || spanMs <= 0) return subset(lttb(ts, points, lo, hi, n), 'raw');
+
+  const r = ROLLUPS.find((x) => (widthPx * x.ms) / spanMs >= MIN_BUCKET_PX) ?? ROLLUPS[ROLLUPS.length - 1];
+  if ((n * r.ms) / spanMs >= MIN_PER_BUCKET) {
+    const buckets = rollup(ts, points, lo, hi, r.level);
+    return {
+      level: r.level,
+      points: buckets,
+      ts: Float64Array.from(buckets, (b) => b.t),
+      stride: n / Math.max(1, buckets.length),
+    };
+  }
+  return subset(lttb(ts, points, lo, hi, Math.floor(widthPx / MIN_PX_PER_POINT)), 'lttb');
+}
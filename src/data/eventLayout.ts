@@ -0,0 +1,93 @@
+import type { TimelineEvent } from './types';
+
+// a point event where it's drawn; px differs from x when it was nudged off a neighbour
+export interface PlacedEvent {
+  kind: 'event';
+  event: TimelineEvent;
+  x: number; // true position
+  px: number; // drawn position
+}
+
+// events too close to tell apart, drawn as one count badge
+export interface EventCluster {
+  kind: 'cluster';
+  id: string;
+  events: TimelineEvent[]; // in time order
+  x: number; // drawn position (mean of the members)
+  x0: number; // true extent of the members
+  x1: number;
+}
+
+export type EventMark = PlacedEvent | EventCluster;
+
+export interface RowLayoutOptions {
+  spacing: number; // minimum distance between drawn marks (one node diameter plus a gap)
+  mergeGap: number; // events closer than this always merge
+  maxNudge: number; // marks that would move further than this merge instead
+  expanded?: ReadonlySet<string>; // event ids that stay separate however close they are
+}
+
+interface Unit {
+  events: { event: TimelineEvent; x: number }[];
+  x: number; // desired position
+}
+
+const clusterOf = (u: Unit): EventCluster => ({
+  kind: 'cluster',
+  id: u.events.map((m) => m.event.id).join('+'),
+  events: u.events.map((m) => m.event),
+  x: u.x,
+  x0: u.events[0].x,
+  x1: u.events[u.events.length - 1].x,
+});
+
+// ordered placement with the least total movement: overlapping blocks merge and centre on their mean
+function spread(units: Unit[], spacing: number) {
+  const blocks: { units: Unit[]; start: number }[] = [];
+  for (const u of units) {
+    let block = { units: [u], start: u.x };
+    for (;;) {
+      const prev = blocks[blocks.length - 1];
+      if (!prev || prev.start + prev.units.length * spacing <= block.start) break;
+      blocks.pop();
+      const merged = [...prev.units, ...block.units];
+      const mean = merged.reduce((sum, m, i) => sum + m.x - i * spacing, 0) / merged.length;
+      block = { units: merged, start: mean };
+    }
+    blocks.push(block);
+  }
+  return blocks.map((b) => ({ units: b.units, at: b.units.map((_, i) => b.start + i * spacing) }));
+}
+
+/**
+ * Lays out the point events of one swimlane row. Events that (nearly) coincide become a cluster,
+ * near misses are nudged apart by up to `maxNudge`, and a run that would need more than that
+ * collapses into one cluster.
+ */
+export function layoutRow(items: { event: TimelineEvent; x: number }[], opts: RowLayoutOptions): EventMark[] {
+  const sorted = [...items].sort((a, b) => a.x - b.x);
+  const keep = (m: { event: TimelineEvent }) => opts.expanded?.has(m.event.id) ?? false;
+
+  // 1. merge coincident events (expanded ones stay on their own)
+  const units: Unit[] = [];
+  for (const m of sorted) {
+    const last = units[units.length - 1];
+    const lastMember = last?.events[last.events.length - 1];
+    if (last && !keep(m) && !keep(lastMember) && m.x - lastMember.x < opts.mergeGap) last.events.push(m);
+    else units.push({ events: [m], x: m.x });
+  }
+  for (const u of units) u.x = u.events.reduce((sum, m) => sum + m.x, 0) / u.events.length;
+
+  // 2. nudge apart; a block that moves too far becomes one cluster
+  return spread(units, opts.spacing).flatMap(({ units: block, at }) => {
+    const pinned = block.some((u) => u.events.some(keep));
+    const moved = block.reduce((max, u, i) => Math.max(max, Math.abs(at[i] - u.x)), 0);
+    if (block.length > 1 && moved > opts.maxNudge && !pinned) {
+      return [clusterOf({ events: block.flatMap((u) => u.events), x: (at[0] + at[at.length - 1]) / 2 })];
+    }
+    return block.map((u, i): EventMark => {
+      if (u.events.length > 1) return { ...clusterOf(u), x: at[i] };
+      return { kind: 'event', event: u.events[0].event, x: u.events[0].x, px: at[i] };
+    });
+  });
+}
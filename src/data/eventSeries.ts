@@ -0,0 +1,82 @@
+import { defaultMetricRegistry, MetricRegistry } from './metricRegistry';
+import type { MetricId, MetricPoint, MetricSeries, TimelineEvent, TimelineEventType } from './types';
+import { convertSeries, normalizeSeries, normalizeUnit } from './units';
+
+// event types whose numeric readings can be charted
+const MEASUREMENT_TYPES: TimelineEventType[] = ['lab', 'vital'];
+
+// analyte names and LOINC codes that map onto a registered metric id
+const ANALYTE_ALIASES: Record<string, MetricId> = {
+  hba1c: 'hba1c',
+  a1c: 'hba1c',
+  'hemoglobin a1c': 'hba1c',
+  '4548-4': 'hba1c',
+  weight: 'weight',
+  'body weight': 'weight',
+  '29463-7': 'weight',
+};
+
+// "HbA1c 8.1%" -> "HbA1c"; the reading is already in meta.value
+const analyteName = (label: string) => label.replace(/\s+[-+]?\d[\d.,]*\s*\S*$/, '').trim() || label;
+
+const slug = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Metric series from lab and vital events that carry a numeric `meta.value`, one per analyte.
+ * Analytes are matched by LOINC code first, then by the event label without its reading. Readings in
+ * other units are converted into the analyte's registered unit (or the unit of its first reading).
+ */
+export function seriesFromEvents(
+  events: TimelineEvent[],
+  registry: MetricRegistry = defaultMetricRegistry
+): MetricSeries[] {
+  const byKey = new Map<string, MetricSeries>(); // one per analyte and unit until normalized
+
+  for (const e of events) {
+    const value = e.meta?.value;
+    if (!MEASUREMENT_TYPES.includes(e.type) || typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const name = analyteName(e.label);
+    const loinc = typeof e.meta?.loinc === 'string' ? e.meta.loinc : undefined;
+    const id = (loinc && ANALYTE_ALIASES[loinc]) ?? ANALYTE_ALIASES[name.toLowerCase()] ?? slug(name);
+    const unit = normalizeUnit(typeof e.meta?.units === 'string' ? e.meta.units : undefined);
+
+    const key = `${id}|${unit ?? ''}`;
+    const s = byKey.get(key) ?? { id, label: registry[id]?.label ?? name, unit, points: [] };
+    s.points.push({ t: e.timestamp, value });
+    byKey.set(key, s);
+  }
+
+  for (const s of byKey.values()) s.points.sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime());
+  return normalizeSeries([...byKey.values()], registry);
+}
+
+/**
+ * Add derived series to the given ones. A derived series with the same id as a given one is
+ * converted into its unit and only contributes readings at times the given series doesn't already have.
+ */
+export function mergeSeries(series: MetricSeries[], derived: MetricSeries[]): MetricSeries[] {
+  const out = [...series];
+  for (const d of derived) {
+    const i = out.findIndex((s) => s.id === d.id);
+    if (i < 0) {
+      out.push(d);
+      continue;
+    }
+    const s = out[i];
+    const converted = convertSeries(d, s.unit);
+    if (normalizeUnit(converted.unit) !== normalizeUnit(s.unit)) continue; // no known conversion
+    const seen = new Set(s.points.map((p) => new Date(p.t).getTime()));
+    const extra: MetricPoint[] = converted.points.filter((p) => !seen.has(new Date(p.t).getTime()));
+    if (!extra.length) continue;
+    out[i] = {
+      ...s,
+      points: [...s.points, ...extra].sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime()),
+    };
+  }
+  return out;
+}
@@ -0,0 +1,63 @@
+import type { LucideIcon } from 'lucide-react';
+import { Activity, Beaker, Brain, ClipboardList, Heart, Image as ImageIcon, Pill, Syringe } from 'lucide-react';
+import { fallbackPalette, neon } from '../theme';
+import type { TimelineEvent, TimelineEventType } from './types';
+
+export interface EventTypeDefinition {
+  id: TimelineEventType;
+  label: string;
+  row: number; // swimlane index; types may share a row
+  color: string;
+  icon: LucideIcon;
+  colorFor?: (event: TimelineEvent) => string; // per-event override of `color`
+  defaultVisible?: boolean; // defaults to true
+}
+
+export type EventTypeRegistry = Record<TimelineEventType, EventTypeDefinition>;
+
+export const defaultEventTypeRegistry: EventTypeRegistry = {
+  diagnosis: { id: 'diagnosis', label: 'Diagnosis', row: 0, color: neon.pink, icon: ClipboardList },
+  medication: { id: 'medication', label: 'Medication', row: 1, color: neon.blue, icon: Pill },
+  lab: { id: 'lab', label: 'Lab', row: 2, color: neon.teal, icon: Beaker },
+  procedure: { id: 'procedure', label: 'Procedure', row: 3, color: neon.amber, icon: Syringe },
+  complaint: { id: 'complaint', label: 'Complaint', row: 4, color: '#ff7aa2', icon: Brain },
+  imaging: { id: 'imaging', label: 'Imaging', row: 5, color: neon.purple, icon: ImageIcon },
+  vital: { id: 'vital', label: 'Vital', row: 6, color: neon.cyan, icon: Activity },
+  life: {
+    id: 'life',
+    label: 'Life',
+    row: 7,
+    color: '#8cff66',
+    icon: Heart,
+    colorFor: (e) => (e.meta?.valence === 'negative' ? '#ff6b6b' : '#8cff66'),
+  },
+};
+
+/** Defaults plus the given definitions (later definitions win). */
+export function createEventTypeRegistry(...defs: EventTypeDefinition[]): EventTypeRegistry {
+  return defs.reduce((acc, d) => ({ ...acc, [d.id]: d }), { ...defaultEventTypeRegistry });
+}
+
+/**
+ * Definitions for every registered type plus any type that only shows up in `events`.
+ * Unregistered types get their own row below the registered ones, a palette color and a generic icon.
+ */
+export function resolveEventTypes(
+  registry: EventTypeRegistry,
+  events: TimelineEvent[]
+): Record<TimelineEventType, EventTypeDefinition> {
+  const resolved: Record<TimelineEventType, EventTypeDefinition> = { ...registry };
+  let nextRow = Math.max(-1, ...Object.values(registry).map((d) => d.row)) + 1;
+  for (const e of events) {
+    if (resolved[e.type]) continue;
+    resolved[e.type] = {
+      id: e.type,
+      label: e.type,
+      row: nextRow,
+      color: fallbackPalette[nextRow % fallbackPalette.length],
+      icon: ClipboardList,
+    };
+    nextRow++;
+  }
+  return resolved;
+}
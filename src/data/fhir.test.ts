@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { FhirBundle, importFhirBundle } from './fhir';
+import recordBundle from './__fixtures__/fhir-record-bundle.json';
+import observationBundle from './__fixtures__/fhir-observation-bundle.json';
+
+const record = recordBundle as FhirBundle;
+const observations = observationBundle as FhirBundle;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+describe('importFhirBundle', () => {
+  describe('Patient', () => {
+    it('builds the profile from the official name and the MR identifier', () => {
+      const { profile } = importFhirBundle(record, { now: NOW });
+      expect(profile).toEqual({ name: 'Joanna M Rivera', age: 53, sex: 'F', dob: '1972-03-15', mrn: 'MRN-4471' });
+    });
+
+    it('turns a year older on the birthday itself, whatever the local time zone', () => {
+      expect(importFhirBundle(record, { now: new Date('2025-03-15T00:30:00Z') }).profile?.age).toBe(53);
+      expect(importFhirBundle(record, { now: new Date('2025-03-14T23:30:00Z') }).profile?.age).toBe(52);
+    });
+
+    it('leaves the age out when there is no birth date', () => {
+      const bundle: FhirBundle = {
+        resourceType: 'Bundle',
+        entry: [{ resource: { resourceType: 'Patient', id: 'p', name: [{ text: 'No Birthday' }] } }],
+      };
+      const { profile } = importFhirBundle(bundle, { now: NOW });
+      expect(profile?.name).toBe('No Birthday');
+      expect(profile).not.toHaveProperty('age');
+    });
+  });
+
+  describe('events', () => {
+    const { events } = importFhirBundle(record, { now: NOW });
+    const byId = Object.fromEntries(events.map((e) => [e.id, e]));
+
+    it('comes out in time order', () => {
+      expect(events.map((e) => e.id)).toEqual([
+        'Condition/cond-1',
+        'MedicationStatement/med-1',
+        'MedicationStatement/med-2',
+        'ImagingStudy/img-1',
+        'Procedure/proc-1',
+        'MedicationRequest/rx-1',
+      ]);
+    });
+
+    it('maps a Condition to a diagnosis with its codes', () => {
+      expect(byId['Condition/cond-1']).toEqual({
+        id: 'Condition/cond-1',
+        type: 'diagnosis',
+        label: 'Type 2 Diabetes',
+        timestamp: '2021-06-01',
+        meta: { icd10: 'E11.9', snomed: '44054006' },
+      });
+    });
+
+    it('maps MedicationStatements to ongoing or finished courses', () => {
+      expect(byId['MedicationStatement/med-1']).toMatchObject({
+        type: 'medication',
+        label: 'Metformin 500 MG',
+        timestamp: '2021-06-15',
+        ongoing: true,
+        meta: { rxnorm: '860975', dose: '500mg BID', status: 'active' },
+      });
+      expect(byId['MedicationStatement/med-2']).toMatchObject({
+        label: 'Amoxicillin',
+        timestamp: '2022-01-10',
+        end: '2022-01-20',
+        meta: { status: 'completed' },
+      });
+      expect(byId['MedicationStatement/med-2']).not.toHaveProperty('ongoing');
+    });
+
+    it('maps a MedicationRequest to a medication on its authored date', () => {
+      expect(byId['MedicationRequest/rx-1']).toMatchObject({
+        type: 'medication',
+        label: 'Lisinopril 10 MG',
+        timestamp: '2023-02-01',
+        meta: { dose: '10mg daily', status: 'active' },
+      });
+    });
+
+    it('maps Procedure and ImagingStudy', () => {
+      expect(byId['Procedure/proc-1']).toMatchObject({
+        type: 'procedure',
+        label: 'Knee arthroscopy',
+        timestamp: '2022-06-15T09:00:00Z',
+        meta: { cpt: '29881' },
+      });
+      expect(byId['ImagingStudy/img-1']).toMatchObject({
+        type: 'imaging',
+        label: 'MR Knee',
+        timestamp: '2022-05-20T14:00:00Z',
+        meta: { loinc: '24590-2', modality: 'MR' },
+      });
+    });
+
+    it('reports what it could not place instead of throwing', () => {
+      expect(importFhirBundle(record, { now: NOW }).skipped).toEqual([
+        { resourceType: 'Condition', id: 'cond-undated', reason: 'no date' },
+        { resourceType: 'Encounter', id: 'enc-1', reason: 'unsupported resource type' },
+      ]);
+    });
+  });
+
+  describe('Observation', () => {
+    const { events, series, skipped } = importFhirBundle(observations, { now: NOW });
+    const seriesById = Object.fromEntries(series.map((s) => [s.id, s]));
+
+    it('charts weight in lbs, converting kg and sorting by time', () => {
+      expect(seriesById.weight.unit).toBe('lbs');
+      expect(seriesById.weight.points).toEqual([
+        { t: '2023-01-01T08:00:00Z', value: 201.3 },
+        { t: '2023-03-01T08:00:00Z', value: 198.4 },
+      ]);
+    });
+
+    it('splits a blood pressure panel into systolic and diastolic points', () => {
+      expect(seriesById.systolic.points).toEqual([{ t: '2023-03-01T08:05:00Z', value: 138 }]);
+      expect(seriesById.diastolic.points).toEqual([{ t: '2023-03-01T08:05:00Z', value: 88 }]);
+    });
+
+    it('keeps other observations as lab events with their value', () => {
+      expect(events).toEqual([
+        {
+          id: 'Observation/a1c-1',
+          type: 'lab',
+          label: 'HbA1c 7.2%',
+          timestamp: '2023-02-15',
+          meta: { loinc: '4548-4', value: 7.2, units: '%' },
+        },
+      ]);
+    });
+
+    it('skips unknown units, empty panels and undated readings', () => {
+      expect(skipped).toEqual([
+        { resourceType: 'Observation', id: 'wt-stones', reason: 'no numeric value in a known unit' },
+        {
+          resourceType: 'Observation',
+          id: 'bp-empty',
+          reason: 'blood pressure panel without systolic/diastolic values',
+        },
+        { resourceType: 'Observation', id: 'undated', reason: 'no date' },
+      ]);
+    });
+  });
+});
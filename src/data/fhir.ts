@@ -0,0 +1,271 @@
+import { defaultMetricRegistry } from './metricRegistry';
+import type { MetricPoint, MetricSeries, PatientProfile, TimelineEvent, TimelineEventType } from './types';
+import { convertValue } from './units';
+
+// Minimal FHIR R4 shapes — only the fields the importer reads.
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  code?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  entry?: { fullUrl?: string; resource?: FhirResource }[];
+}
+
+export interface SkippedResource {
+  resourceType: string;
+  id?: string;
+  reason: string;
+}
+
+export interface FhirImportResult {
+  events: TimelineEvent[];
+  series: MetricSeries[];
+  profile: PatientProfile | null;
+  skipped: SkippedResource[];
+}
+
+export const CODE_SYSTEMS = {
+  loinc: 'http://loinc.org',
+  icd10: 'http://hl7.org/fhir/sid/icd-10',
+  icd10cm: 'http://hl7.org/fhir/sid/icd-10-cm',
+  snomed: 'http://snomed.info/sct',
+  rxnorm: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+  cpt: 'http://www.ama-assn.org/go/cpt',
+};
+
+// LOINC codes charted as metric series rather than events
+const LOINC_METRICS: Record<string, MetricSeries['id']> = {
+  '29463-7': 'weight', // Body weight
+  '3141-9': 'weight', // Body weight Measured
+  '8480-6': 'systolic',
+  '8462-4': 'diastolic',
+};
+const LOINC_BP_PANELS = ['85354-9', '55284-4']; // BP panel: systolic/diastolic as components
+
+// helpers
+const codingIn = (cc: FhirCodeableConcept | undefined, ...systems: string[]) =>
+  cc?.coding?.find((c) => c.system && systems.includes(c.system));
+
+const conceptText = (cc: FhirCodeableConcept | undefined) => cc?.text ?? cc?.coding?.find((c) => c.display)?.display;
+
+const conceptCodes = (cc: FhirCodeableConcept | undefined) => {
+  const codes: Record<string, string> = {};
+  const icd10 = codingIn(cc, CODE_SYSTEMS.icd10, CODE_SYSTEMS.icd10cm)?.code;
+  const snomed = codingIn(cc, CODE_SYSTEMS.snomed)?.code;
+  const rxnorm = codingIn(cc, CODE_SYSTEMS.rxnorm)?.code;
+  const loinc = codingIn(cc, CODE_SYSTEMS.loinc)?.code;
+  const cpt = codingIn(cc, CODE_SYSTEMS.cpt)?.code;
+  if (icd10) codes.icd10 = icd10;
+  if (snomed) codes.snomed = snomed;
+  if (rxnorm) codes.rxnorm = rxnorm;
+  if (loinc) codes.loinc = loinc;
+  if (cpt) codes.cpt = cpt;
+  return codes;
+};
+
+const firstTime = (...candidates: unknown[]) => {
+  for (const c of candidates) {
+    if (typeof c === 'string' && c) return c;
+    const start = (c as FhirPeriod | undefined)?.start;
+    if (start) return start;
+  }
+  return undefined;
+};
+
+// normalize a quantity into the series' registered unit (weight is stored in lbs)
+function metricValue(id: MetricSeries['id'], q: FhirQuantity): number | null {
+  if (typeof q.value !== 'number') return null;
+  const unit = q.code ?? q.unit;
+  const target = defaultMetricRegistry[id]?.unit;
+  if (!unit || !target) return q.value;
+  return convertValue(q.value, unit, target, id);
+}
+
+// birthDate is a plain date, which parses as UTC midnight, so compare in UTC
+function ageOn(dob: string, now: Date) {
+  const d = new Date(dob);
+  let age = now.getUTCFullYear() - d.getUTCFullYear();
+  const m = now.getUTCMonth() - d.getUTCMonth();
+  if (m < 0 || (m === 0 && now.getUTCDate() < d.getUTCDate())) age--;
+  return age;
+}
+
+function toProfile(r: FhirResource, now: Date): PatientProfile {
+  const names = (r.name as { text?: string; given?: string[]; family?: string; use?: string }[] | undefined) ?? [];
+  const name = names.find((n) => n.use === 'official') ?? names[0];
+  const identifiers = (r.identifier as { type?: FhirCodeableConcept; value?: string }[] | undefined) ?? [];
+  const mrn = identifiers.find((i) => i.type?.coding?.some((c) => c.code === 'MR')) ?? identifiers[0];
+  const gender = r.gender as string | undefined;
+  const dob = (r.birthDate as string | undefined) ?? '';
+  return {
+    name: name?.text ?? [...(name?.given ?? []), name?.family].filter(Boolean).join(' '),
+    ...(dob && !isNaN(new Date(dob).getTime()) ? { age: ageOn(dob, now) } : {}),
+    sex: gender === 'female' ? 'F' : gender === 'male' ? 'M' : gender ? gender.charAt(0).toUpperCase() : '',
+    dob,
+    mrn: mrn?.value ?? '',
+  };
+}
+
+/**
+ * Convert a FHIR R4 Bundle into timeline events, metric series and the patient profile.
+ * LOINC-coded weight and blood pressure observations become metric points; every other
+ * supported resource becomes an event. Anything that can't be placed on the timeline is
+ * reported in `skipped` rather than thrown.
+ */
+export function importFhirBundle(bundle: FhirBundle, opts: { now?: Date } = {}): FhirImportResult {
+  const now = opts.now ?? new Date();
+  const events: TimelineEvent[] = [];
+  const points: Partial<Record<MetricSeries['id'], MetricPoint[]>> = {};
+  const skipped: SkippedResource[] = [];
+  let profile: PatientProfile | null = null;
+
+  const addPoint = (id: MetricSeries['id'], t: string, q: FhirQuantity | undefined) => {
+    const value = q ? metricValue(id, q) : null;
+    if (value == null) return false;
+    (points[id] ??= []).push({ t, value });
+    return true;
+  };
+
+  (bundle.entry ?? []).forEach((entry, i) => {
+    const r = entry.resource;
+    if (!r) return;
+    const skip = (reason: string) => skipped.push({ resourceType: r.resourceType, id: r.id, reason });
+    const eventId = `${r.resourceType}/${r.id ?? i}`;
+    let span: Pick<TimelineEvent, 'end' | 'ongoing'> = {};
+    const pushEvent = (
+      type: TimelineEventType,
+      label: string | undefined,
+      timestamp: string | undefined,
+      meta: Record<string, unknown>
+    ) => {
+      if (!timestamp) return skip('no date');
+      events.push({ id: eventId, type, label: label ?? r.resourceType, timestamp, meta, ...span });
+    };
+
+    switch (r.resourceType) {
+      case 'Patient':
+        profile = toProfile(r, now);
+        return;
+
+      case 'Condition': {
+        const code = r.code as FhirCodeableConcept | undefined;
+        return pushEvent('diagnosis', conceptText(code), firstTime(r.onsetDateTime, r.onsetPeriod, r.recordedDate), {
+          ...conceptCodes(code),
+        });
+      }
+
+      case 'MedicationStatement':
+      case 'MedicationRequest': {
+        const med = r.medicationCodeableConcept as FhirCodeableConcept | undefined;
+        const dosage = ((r.dosage ?? r.dosageInstruction) as { text?: string }[] | undefined)?.[0];
+        const timestamp =
+          r.resourceType === 'MedicationStatement'
+            ? firstTime(r.effectiveDateTime, r.effectivePeriod, r.dateAsserted)
+            : firstTime(r.authoredOn);
+        // an effective period makes it a course rather than a single point
+        const period = r.effectivePeriod as FhirPeriod | undefined;
+        if (period?.start && period.end) span = { end: period.end };
+        else if (period?.start && r.status === 'active') span = { ongoing: true };
+        return pushEvent('medication', conceptText(med), timestamp, {
+          ...conceptCodes(med),
+          ...(dosage?.text ? { dose: dosage.text } : {}),
+          ...(r.status ? { status: r.status } : {}),
+        });
+      }
+
+      case 'Observation': {
+        const code = r.code as FhirCodeableConcept | undefined;
+        const loinc = codingIn(code, CODE_SYSTEMS.loinc)?.code;
+        const t = firstTime(r.effectiveDateTime, r.effectivePeriod, r.issued);
+        if (!t) return skip('no date');
+
+        if (loinc && LOINC_METRICS[loinc]) {
+          if (!addPoint(LOINC_METRICS[loinc], t, r.valueQuantity as FhirQuantity | undefined))
+            skip('no numeric value in a known unit');
+          return;
+        }
+        if (loinc && LOINC_BP_PANELS.includes(loinc)) {
+          const components = (r.component as { code?: FhirCodeableConcept; valueQuantity?: FhirQuantity }[]) ?? [];
+          let added = 0;
+          for (const c of components) {
+            const id = LOINC_METRICS[codingIn(c.code, CODE_SYSTEMS.loinc)?.code ?? ''];
+            if (id && addPoint(id, t, c.valueQuantity)) added++;
+          }
+          if (!added) skip('blood pressure panel without systolic/diastolic values');
+          return;
+        }
+
+        const categories = (r.category as FhirCodeableConcept[] | undefined) ?? [];
+        const isVital = categories.some((c) => c.coding?.some((cd) => cd.code === 'vital-signs'));
+        const q = r.valueQuantity as FhirQuantity | undefined;
+        const label = conceptText(code);
+        const meta: Record<string, unknown> = { ...conceptCodes(code) };
+        if (typeof q?.value === 'number') {
+          meta.value = q.value;
+          if (q.unit ?? q.code) meta.units = q.unit ?? q.code;
+        } else if (typeof r.valueString === 'string') {
+          meta.value = r.valueString;
+        }
+        const unitSuffix = !q?.unit ? '' : q.unit === '%' ? '%' : ` ${q.unit}`;
+        const display = typeof q?.value === 'number' ? `${label ?? 'Observation'} ${q.value}${unitSuffix}` : label;
+        return pushEvent(isVital ? 'vital' : 'lab', display, t, meta);
+      }
+
+      case 'Procedure': {
+        const code = r.code as FhirCodeableConcept | undefined;
+        return pushEvent('procedure', conceptText(code), firstTime(r.performedDateTime, r.performedPeriod), {
+          ...conceptCodes(code),
+        });
+      }
+
+      case 'ImagingStudy': {
+        const procedure = (r.procedureCode as FhirCodeableConcept[] | undefined)?.[0];
+        const modality = (r.modality as FhirCoding[] | undefined)?.[0]?.code;
+        return pushEvent(
+          'imaging',
+          (r.description as string | undefined) ?? conceptText(procedure) ?? modality,
+          firstTime(r.started),
+          { ...conceptCodes(procedure), ...(modality ? { modality } : {}) }
+        );
+      }
+
+      default:
+        return skip('unsupported resource type');
+    }
+  });
+
+  events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const series = (Object.keys(points) as MetricSeries['id'][]).map((id) => ({
+    id,
+    label: defaultMetricRegistry[id]?.label ?? id,
+    unit: defaultMetricRegistry[id]?.unit,
+    points: points[id]!.sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime()),
+  }));
+
+  return { events, series, profile, skipped };
+}
@@ -0,0 +1,88 @@
+import { extent } from './arrays';
+import type { MetricPoint } from './types';
+
+export type ForecastMethod = 'linear' | 'weighted';
+
+export const forecastMethodLabel: Record<ForecastMethod, string> = {
+  linear: 'Linear',
+  weighted: 'Exp. weighted',
+};
+
+export interface ForecastPoint {
+  t: Date;
+  value: number;
+  lower: number; // 95% prediction interval
+  upper: number;
+}
+
+export interface ForecastModel {
+  method: ForecastMethod;
+  n: number; // points the model was fitted on
+  slopePerDay: number;
+  predict: (t: Date) => ForecastPoint;
+}
+
+const DAY = 86_400_000;
+
+// two-sided 95% Student-t critical values for df 1..30; normal beyond
+const T95 = [
+  12.71, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+const tCritical = (df: number) => (df >= 30 ? 1.96 : T95[Math.max(0, Math.floor(df) - 1)]);
+
+/**
+ * Fit a trend line to `points` and return a predictor with 95% prediction intervals.
+ * - `linear`: ordinary least squares.
+ * - `weighted`: least squares with exponentially decaying weights (half-life `halfLifeDays`),
+ *   so recent readings dominate the trend.
+ * Returns null when there is too little data to estimate a spread (fewer than 3 points).
+ */
+export function fitForecast(
+  points: MetricPoint[],
+  method: ForecastMethod,
+  opts: { halfLifeDays?: number } = {}
+): ForecastModel | null {
+  if (points.length < 3) return null;
+  const halfLifeDays = opts.halfLifeDays ?? 180;
+
+  const ts = points.map((p) => new Date(p.t).getTime());
+  const t0 = extent(ts)[1];
+  const xs = ts.map((t) => (t - t0) / DAY); // days, <= 0
+  const ys = points.map((p) => p.value);
+
+  const raw = xs.map((x) => (method === 'weighted' ? Math.pow(0.5, -x / halfLifeDays) : 1));
+  // normalize weights so they sum to the effective sample size
+  const sumW = raw.reduce((a, b) => a + b, 0);
+  const nEff = (sumW * sumW) / raw.reduce((a, w) => a + w * w, 0);
+  const w = raw.map((v) => (v * nEff) / sumW);
+
+  const xBar = w.reduce((acc, wi, i) => acc + wi * xs[i], 0) / nEff;
+  const yBar = w.reduce((acc, wi, i) => acc + wi * ys[i], 0) / nEff;
+  const sxx = w.reduce((acc, wi, i) => acc + wi * (xs[i] - xBar) ** 2, 0);
+  if (sxx === 0 || nEff <= 2) return null;
+
+  const slope = w.reduce((acc, wi, i) => acc + wi * (xs[i] - xBar) * (ys[i] - yBar), 0) / sxx;
+  const intercept = yBar - slope * xBar;
+  const s2 = w.reduce((acc, wi, i) => acc + wi * (ys[i] - (intercept + slope * xs[i])) ** 2, 0) / (nEff - 2);
+  const tc = tCritical(nEff - 2);
+
+  return {
+    method,
+    n: points.length,
+    slopePerDay: slope,
+    predict: (t) => {
+      const x = (t.getTime() - t0) / DAY;
+      const value = intercept + slope * x;
+      const half = tc * Math.sqrt(s2 * (1 + 1 / nEff + (x - xBar) ** 2 / sxx));
+      return { t, value, lower: value - half, upper: value + half };
+    },
+  };
+}
+
+// evenly spaced predictions between two dates (inclusive)
+export function sampleForecast(model: ForecastModel, from: Date, to: Date, steps = 24): ForecastPoint[] {
+  const a = from.getTime();
+  const span = to.getTime() - a;
+  return Array.from({ length: steps + 1 }, (_, i) => model.predict(new Date(a + (span * i) / steps)));
+}
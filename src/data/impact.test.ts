@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { eventImpact, rankEventImpacts } from './impact';
+import type { MetricSeries, TimelineEvent } from './types';
+
+const weight: MetricSeries = {
+  id: 'weight',
+  label: 'Weight',
+  unit: 'lbs',
+  points: [
+    { t: '2023-12-01', value: 300 }, // outside the window
+    { t: '2024-01-01', value: 200 },
+    { t: '2024-01-20', value: 204 },
+    { t: '2024-02-01', value: 190 }, // on the day: counts as after
+    { t: '2024-02-15', value: 186 },
+    { t: '2024-03-02', value: 188 }, // last day of the window
+    { t: '2024-04-01', value: 100 }, // outside the window
+  ],
+};
+const event = (id: string, timestamp: string): TimelineEvent => ({ id, type: 'medication', label: id, timestamp });
+const w = { beforeDays: 31, afterDays: 30 };
+
+describe('eventImpact', () => {
+  it('compares the mean before the event with the mean from the event on', () => {
+    const { metrics, top } = eventImpact(event('metformin', '2024-02-01'), [weight], w);
+    expect(metrics).toEqual([{ metricId: 'weight', before: 202, after: 188, delta: -14, relative: 14 / 200 }]);
+    expect(top).toBe(metrics[0]);
+  });
+
+  it('has no delta when one side of the window is empty', () => {
+    const { metrics, score } = eventImpact(event('early', '2023-06-01'), [weight], w);
+    expect(metrics[0]).toMatchObject({ before: null, after: null, delta: null, relative: null });
+    expect(score).toBe(0);
+  });
+});
+
+describe('rankEventImpacts', () => {
+  it('puts the event with the largest relative change first', () => {
+    const ranked = rankEventImpacts([event('early', '2023-06-01'), event('metformin', '2024-02-01')], [weight], w);
+    expect(ranked.map((r) => r.event.id)).toEqual(['metformin', 'early']);
+  });
+});
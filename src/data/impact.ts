@@ -0,0 +1,89 @@
+import { bisect, extent } from './arrays';
+import type { MetricDefinition } from './metricRegistry';
+import type { MetricId, MetricSeries, TimelineEvent } from './types';
+
+export interface ImpactWindow {
+  beforeDays: number;
+  afterDays: number;
+}
+
+export interface MetricImpact {
+  metricId: MetricId;
+  before: number | null; // mean of the readings in the window before the event
+  after: number | null; // mean of the readings from the event through the window after it
+  delta: number | null; // after - before
+  relative: number | null; // |delta| as a share of the series' overall range, for ranking across units
+}
+
+export interface EventImpact {
+  event: TimelineEvent;
+  metrics: MetricImpact[];
+  score: number; // largest relative change across metrics
+  top: MetricImpact | null;
+}
+
+const DAY = 86_400_000;
+
+// a series with its times parsed and running sums, so any window's mean is two binary searches
+interface IndexedSeries {
+  series: MetricSeries;
+  ts: Float64Array; // ascending
+  sums: Float64Array; // sums[i] = total of the first i values
+  range: number; // max - min over the whole series
+}
+
+function indexSeries(series: MetricSeries): IndexedSeries {
+  const ts = Float64Array.from(series.points, (p) => new Date(p.t).getTime());
+  const sums = new Float64Array(series.points.length + 1);
+  series.points.forEach((p, i) => (sums[i + 1] = sums[i] + p.value));
+  const [min, max] = extent(series.points.map((p) => p.value));
+  return { series, ts, sums, range: series.points.length ? max - min : 0 };
+}
+
+// mean of the readings at indices [lo, hi)
+const meanOf = ({ sums }: IndexedSeries, lo: number, hi: number) =>
+  hi > lo ? (sums[hi] - sums[lo]) / (hi - lo) : null;
+
+export function windowAround(event: TimelineEvent, w: ImpactWindow): [Date, Date] {
+  const t = new Date(event.timestamp).getTime();
+  return [new Date(t - w.beforeDays * DAY), new Date(t + w.afterDays * DAY)];
+}
+
+function impactOf(event: TimelineEvent, indexed: IndexedSeries[], w: ImpactWindow): EventImpact {
+  const t = new Date(event.timestamp).getTime();
+  const [from, to] = windowAround(event, w).map((d) => d.getTime());
+
+  const metrics = indexed.map<MetricImpact>((s) => {
+    const [lo, mid, hi] = [bisect(s.ts, from), bisect(s.ts, t), bisect(s.ts, to + 1)];
+    const b = meanOf(s, lo, mid);
+    const a = meanOf(s, mid, hi); // a reading on the day counts as after
+    const delta = a != null && b != null ? a - b : null;
+    return {
+      metricId: s.series.id,
+      before: b,
+      after: a,
+      delta,
+      relative: delta != null && s.range > 0 ? Math.abs(delta) / s.range : null,
+    };
+  });
+
+  const top = metrics.reduce<MetricImpact | null>(
+    (best, m) => (m.relative != null && (!best || m.relative > (best.relative ?? 0)) ? m : best),
+    null
+  );
+  return { event, metrics, score: top?.relative ?? 0, top };
+}
+
+/** Change in each metric across the window before vs. after the event. Points must be in time order. */
+export const eventImpact = (event: TimelineEvent, series: MetricSeries[], w: ImpactWindow): EventImpact =>
+  impactOf(event, series.map(indexSeries), w);
+
+// events ordered by their strongest associated metric change; each series is indexed once for all events
+export function rankEventImpacts(events: TimelineEvent[], series: MetricSeries[], w: ImpactWindow): EventImpact[] {
+  const indexed = series.map(indexSeries);
+  return events.map((e) => impactOf(e, indexed, w)).sort((a, b) => b.score - a.score);
+}
+
+// "+2.0 lbs" style delta for tooltips and tables
+export const formatImpactDelta = (m: MetricImpact, def: MetricDefinition | undefined) =>
+  m.delta == null ? '—' : `${m.delta >= 0 ? '+' : ''}${m.delta.toFixed(1)}${def?.unit ? ` ${def.unit}` : ''}`;
@@ -0,0 +1,244 @@
+import { defaultMetricRegistry, MetricRegistry } from './metricRegistry';
+import type { MetricPoint, MetricSeries, TimelineEvent } from './types';
+import { normalizeSeries, normalizeUnit } from './units';
+
+export type ImportFormat = 'csv' | 'json';
+
+// one input row as it will be imported, or why it won't be
+export interface ImportRow {
+  source: string; // "line 4", "events[2]", "series[0].points[5]"
+  kind: 'event' | 'metric';
+  id: string;
+  label: string;
+  t: string;
+  value: string;
+  error?: string;
+}
+
+export interface ImportResult {
+  events: TimelineEvent[];
+  series: MetricSeries[];
+  rows: ImportRow[];
+}
+
+const isDate = (v: unknown): v is string => typeof v === 'string' && v !== '' && !isNaN(new Date(v).getTime());
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Long-format CSV with a header row: `metric, timestamp, value, unit` (any order, unit optional).
+ * Rows of the same metric become one series, converted into the metric's registered unit.
+ */
+export function importCsv(text: string, registry: MetricRegistry = defaultMetricRegistry): ImportResult {
+  const [header, ...body] = parseCsv(text.trim());
+  const col = (name: string) => (header ?? []).findIndex((h) => h.trim().toLowerCase() === name);
+  const [mi, ti, vi, ui] = ['metric', 'timestamp', 'value', 'unit'].map(col);
+  const rows: ImportRow[] = [];
+  if (mi < 0 || ti < 0 || vi < 0) {
+    rows.push({
+      source: 'line 1',
+      kind: 'metric',
+      id: '',
+      label: '',
+      t: '',
+      value: '',
+      error: 'header must name the metric, timestamp and value columns',
+    });
+    return { events: [], series: [], rows };
+  }
+
+  const bySeries = new Map<string, MetricSeries>(); // per metric and unit, normalized below
+  body.forEach((cells, i) => {
+    if (cells.every((c) => c.trim() === '')) return;
+    const [id, t, raw] = [cells[mi]?.trim() ?? '', cells[ti]?.trim() ?? '', cells[vi]?.trim() ?? ''];
+    const unit = ui >= 0 ? normalizeUnit(cells[ui]) : undefined;
+    const value = Number(raw);
+    const row: ImportRow = {
+      source: `line ${i + 2}`,
+      kind: 'metric',
+      id,
+      label: registry[id]?.label ?? id,
+      t,
+      value: raw,
+    };
+    if (!id) row.error = 'missing metric';
+    else if (!isDate(t)) row.error = `"${t}" is not a date`;
+    else if (raw === '' || !Number.isFinite(value)) row.error = `"${raw}" is not a number`;
+    rows.push(row);
+    if (row.error) return;
+
+    const key = `${id}|${unit ?? ''}`;
+    const s = bySeries.get(key) ?? { id, label: row.label, unit: unit ?? registry[id]?.unit, points: [] };
+    s.points.push({ t, value });
+    bySeries.set(key, s);
+  });
+
+  return { events: [], series: finishSeries([...bySeries.values()], registry), rows };
+}
+
+// sort points and fold series that share an id into its registered unit
+const finishSeries = (series: MetricSeries[], registry: MetricRegistry) =>
+  normalizeSeries(
+    series.map((s) => ({
+      ...s,
+      points: [...s.points].sort((a, b) => new Date(a.t).getTime() - new Date(b.t).getTime()),
+    })),
+    registry
+  );
+
+function checkEvent(e: unknown): string | undefined {
+  if (typeof e !== 'object' || e == null) return 'not an object';
+  const { id, type, label, timestamp, end, segments } = e as Partial<TimelineEvent>;
+  if (typeof id !== 'string' || !id) return 'missing id';
+  if (typeof type !== 'string' || !type) return 'missing type';
+  if (typeof label !== 'string') return 'missing label';
+  if (!isDate(timestamp)) return 'timestamp is not a date';
+  if (end != null && !isDate(end)) return 'end is not a date';
+  if (segments != null && (!Array.isArray(segments) || segments.some((sg) => !isDate(sg?.start))))
+    return 'segments need a start date each';
+}
+
+/**
+ * JSON as `{ events?: TimelineEvent[], series?: MetricSeries[] }`, or a bare array of events.
+ * Invalid events and points are reported and left out; the rest is imported.
+ */
+export function importJson(text: string, registry: MetricRegistry = defaultMetricRegistry): ImportResult {
+  const rows: ImportRow[] = [];
+  const blank = { id: '', label: '', t: '', value: '' };
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    rows.push({ source: 'file', kind: 'event', ...blank, error: `invalid JSON: ${(err as Error).message}` });
+    return { events: [], series: [], rows };
+  }
+  const root = (Array.isArray(data) ? { events: data } : (data ?? {})) as { events?: unknown; series?: unknown };
+
+  const events: TimelineEvent[] = [];
+  (Array.isArray(root.events) ? root.events : []).forEach((e, i) => {
+    const error = checkEvent(e);
+    const ev = e as TimelineEvent;
+    rows.push({
+      source: `events[${i}]`,
+      kind: 'event',
+      id: String(ev?.id ?? ''),
+      label: String(ev?.label ?? ''),
+      t: String(ev?.timestamp ?? ''),
+      value: String(ev?.type ?? ''),
+      error,
+    });
+    if (!error) events.push(ev);
+  });
+
+  const series: MetricSeries[] = [];
+  (Array.isArray(root.series) ? root.series : []).forEach((s: Partial<MetricSeries>, i) => {
+    const id = typeof s?.id === 'string' ? s.id : '';
+    const label = typeof s?.label === 'string' ? s.label : (registry[id]?.label ?? id);
+    if (!id || !Array.isArray(s.points)) {
+      rows.push({ source: `series[${i}]`, kind: 'metric', ...blank, id, label, error: 'needs an id and points' });
+      return;
+    }
+    const points: MetricPoint[] = [];
+    s.points.forEach((p, j) => {
+      const error = !isDate(p?.t)
+        ? 't is not a date'
+        : typeof p.value !== 'number' || !Number.isFinite(p.value)
+          ? 'value is not a number'
+          : undefined;
+      rows.push({
+        source: `series[${i}].points[${j}]`,
+        kind: 'metric',
+        id,
+        label,
+        t: String(p?.t ?? ''),
+        value: String(p?.value ?? ''),
+        error,
+      });
+      if (!error) points.push({ t: p.t, value: p.value });
+    });
+    series.push({ id, label, unit: normalizeUnit(s.unit), points });
+  });
+
+  return { events, series: finishSeries(series, registry), rows };
+}
+
+export const importData = (text: string, fmt: ImportFormat, registry?: MetricRegistry) =>
+  fmt === 'csv' ? importCsv(text, registry) : importJson(text, registry);
+
+// format from the file name, else from the first character
+export const detectFormat = (text: string, filename?: string): ImportFormat =>
+  filename?.toLowerCase().endsWith('.csv')
+    ? 'csv'
+    : filename?.toLowerCase().endsWith('.json')
+      ? 'json'
+      : /^\s*[[{]/.test(text)
+        ? 'json'
+        : 'csv';
+
+const inRange = (t: string, [from, to]: [Date, Date]) => {
+  const ms = new Date(t).getTime();
+  return ms >= from.getTime() && ms <= to.getTime();
+};
+
+// events that overlap the range (duration events count if any part of them does)
+const eventInRange = (e: TimelineEvent, range: [Date, Date]) => {
+  const start = new Date(e.timestamp).getTime();
+  const end = e.ongoing ? Infinity : e.end ? new Date(e.end).getTime() : start;
+  return start <= range[1].getTime() && end >= range[0].getTime();
+};
+
+const csvCell = (v: string) => (/[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+/** Metric points inside `range` in the same long format `importCsv` reads. */
+export function seriesToCsv(series: MetricSeries[], range: [Date, Date]): string {
+  const lines = ['metric,timestamp,value,unit'];
+  for (const s of series) {
+    for (const p of s.points) {
+      if (inRange(p.t, range)) lines.push([s.id, p.t, String(p.value), s.unit ?? ''].map(csvCell).join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Events and metric points inside `range` in the shape `importJson` reads. */
+export function dataToJson(events: TimelineEvent[], series: MetricSeries[], range: [Date, Date]): string {
+  return JSON.stringify(
+    {
+      events: events.filter((e) => eventInRange(e, range)),
+      series: series.map((s) => ({ ...s, points: s.points.filter((p) => inRange(p.t, range)) })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { classifyValue, defaultMetricRegistry, rangesFor } from './metricRegistry';
+import type { PatientProfile } from './types';
+
+const patient = (age?: number): PatientProfile => ({ name: 'Test', age, sex: 'F', dob: '', mrn: '1' });
+
+describe('rangesFor', () => {
+  it('returns fixed ranges as they are', () => {
+    expect(rangesFor(defaultMetricRegistry.systolic, patient(40))).toBe(defaultMetricRegistry.systolic.referenceRanges);
+  });
+
+  it('adjusts the HbA1c bands for older adults', () => {
+    const label = (age: number | undefined, value: number) =>
+      classifyValue(rangesFor(defaultMetricRegistry.hba1c, patient(age)), value)?.label;
+    expect(label(50, 7.2)).toBe('Diabetes');
+    expect(label(undefined, 7.2)).toBe('Diabetes');
+    expect(label(70, 7.2)).toBe('Diabetes, within older-adult goal');
+    expect(label(70, 8.1)).toBe('Diabetes, above older-adult goal');
+    expect(label(70, 5.9)).toBe('Prediabetes');
+  });
+
+  it('has no ranges for metrics without any', () => {
+    expect(rangesFor(defaultMetricRegistry.weight, patient(40))).toEqual([]);
+    expect(rangesFor(undefined, patient(40))).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { fallbackPalette, neon } from '../theme';
+import type { MetricId, MetricSeries, PatientProfile } from './types';
+import type { UnitSystem } from './units';
+
+export type RangeSeverity = 'low' | 'normal' | 'elevated' | 'high' | 'critical';
+
+// [min, max) in the metric's unit; open-ended when a bound is missing
+export interface ReferenceRange {
+  label: string;
+  min?: number;
+  max?: number;
+  severity: RangeSeverity;
+}
+
+export const severityColor: Record<RangeSeverity, string> = {
+  low: neon.blue,
+  normal: neon.teal,
+  elevated: neon.amber,
+  high: '#ff7a45',
+  critical: '#ff4d4f',
+};
+
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;
+  unit?: string; // unit the values are stored in
+  displayUnits?: Partial<Record<UnitSystem, string>>; // shown instead of `unit` under a unit system
+  unitGroup: string; // metrics in the same group share a y-axis (e.g. systolic + diastolic)
+  color: string;
+  hardMin?: number; // y-axis always reaches down to this value
+  defaultVisible?: boolean; // defaults to true
+  // clinical bands; a function when they depend on the patient (age, sex)
+  referenceRanges?: ReferenceRange[] | ((profile: PatientProfile) => ReferenceRange[]);
+}
+
+export type MetricRegistry = Record<MetricId, MetricDefinition>;
+
+// axis label (and optional fixed domain) per unit group; otherwise the axis is labelled with the metrics' unit
+export const unitGroupAxis: Record<string, { label: string; domain?: [number, number] }> = {
+  index100: { label: 'Score (0–100)', domain: [0, 100] },
+};
+
+const diabetesBands = (age: number | undefined): ReferenceRange[] =>
+  age != null && age >= 65
+    ? [
+        { label: 'Diabetes, within older-adult goal', min: 6.5, max: 7.5, severity: 'elevated' },
+        { label: 'Diabetes, above older-adult goal', min: 7.5, severity: 'high' },
+      ]
+    : [{ label: 'Diabetes', min: 6.5, severity: 'high' }];
+
+export const defaultMetricRegistry: MetricRegistry = {
+  weight: {
+    id: 'weight',
+    label: 'Weight',
+    unit: 'lbs',
+    displayUnits: { metric: 'kg' },
+    unitGroup: 'weight',
+    color: neon.cyan,
+    hardMin: 0,
+  },
+  // ACC/AHA 2017 blood pressure categories
+  systolic: {
+    id: 'systolic',
+    label: 'BP Systolic',
+    unit: 'mmHg',
+    unitGroup: 'mmHg',
+    color: neon.blue,
+    referenceRanges: [
+      { label: 'Normal', max: 120, severity: 'normal' },
+      { label: 'Elevated', min: 120, max: 130, severity: 'elevated' },
+      { label: 'Stage 1 hypertension', min: 130, max: 140, severity: 'high' },
+      { label: 'Stage 2 hypertension', min: 140, max: 180, severity: 'critical' },
+      { label: 'Hypertensive crisis', min: 180, severity: 'critical' },
+    ],
+  },
+  diastolic: {
+    id: 'diastolic',
+    label: 'BP Diastolic',
+    unit: 'mmHg',
+    unitGroup: 'mmHg',
+    color: neon.purple,
+    referenceRanges: [
+      { label: 'Normal', max: 80, severity: 'normal' },
+      { label: 'Stage 1 hypertension', min: 80, max: 90, severity: 'high' },
+      { label: 'Stage 2 hypertension', min: 90, max: 120, severity: 'critical' },
+      { label: 'Hypertensive crisis', min: 120, severity: 'critical' },
+    ],
+  },
+  // ADA diagnostic thresholds; from 65 the diabetes band is split at the ADA goal for healthy older adults (< 7.5%)
+  hba1c: {
+    id: 'hba1c',
+    label: 'HbA1c',
+    unit: '%',
+    displayUnits: { metric: 'mmol/mol' },
+    unitGroup: 'hba1c',
+    color: neon.amber,
+    referenceRanges: (profile) => [
+      { label: 'Normal', max: 5.7, severity: 'normal' },
+      { label: 'Prediabetes', min: 5.7, max: 6.5, severity: 'elevated' },
+      ...diabetesBands(profile.age),
+    ],
+  },
+  // treat both as 0–100 index
+  sleepScore: { id: 'sleepScore', label: 'Sleep Score', unitGroup: 'index100', color: neon.teal, hardMin: 0 },
+  stressIndex: { id: 'stressIndex', label: 'Stress Index', unitGroup: 'index100', color: neon.pink, hardMin: 0 },
+};
+
+export const rangesFor = (def: MetricDefinition | undefined, profile: PatientProfile): ReferenceRange[] =>
+  !def?.referenceRanges
+    ? []
+    : typeof def.referenceRanges === 'function'
+      ? def.referenceRanges(profile)
+      : def.referenceRanges;
+
+export function classifyValue(ranges: ReferenceRange[], value: number): ReferenceRange | null {
+  return ranges.find((r) => (r.min == null || value >= r.min) && (r.max == null || value < r.max)) ?? null;
+}
+
+export const formatRange = (r: ReferenceRange) =>
+  r.min != null && r.max != null ? `${r.min}–${r.max}` : r.min != null ? `≥ ${r.min}` : `< ${r.max}`;
+
+/** Defaults plus the given definitions (later definitions win). */
+export function createMetricRegistry(...defs: MetricDefinition[]): MetricRegistry {
+  return defs.reduce((acc, d) => ({ ...acc, [d.id]: d }), { ...defaultMetricRegistry });
+}
+
+/**
+ * Definition for a series, registered or not. Unregistered series get their own unit group
+ * (keyed by unit, so same-unit series still share an axis) and a palette color by position.
+ */
+export function resolveMetric(registry: MetricRegistry, series: MetricSeries, index: number): MetricDefinition {
+  const def = registry[series.id];
+  if (def) return def;
+  return {
+    id: series.id,
+    label: series.label,
+    unit: series.unit,
+    unitGroup: series.unit || `series:${series.id}`,
+    color: fallbackPalette[index % fallbackPalette.length],
+  };
+}
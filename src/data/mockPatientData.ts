@@ -1,32 +1,4 @@
-export type TimelineEventType =
-  | 'diagnosis'
-  | 'medication'
-  | 'lab'
-  | 'procedure'
-  | 'complaint'
-  | 'imaging'
-  | 'vital'
-  | 'life'; // positive/negative life events
-
-export interface TimelineEvent {
-  id: string;
-  type: TimelineEventType;
-  label: string;
-  timestamp: string;
-  meta?: Record<string, any>;
-}
-
-export interface MetricPoint {
-  t: string; // ISO
-  value: number; // numeric value
-}
-
-export interface MetricSeries {
-  id: 'weight' | 'systolic' | 'diastolic' | 'sleepScore' | 'stressIndex';
-  label: string;
-  unit?: string;
-  points: MetricPoint[];
-}
+import type { MetricSeries, PatientProfile, TimelineEvent } from './types';
 
 export const mockPatientEvents: TimelineEvent[] = [
   {
@@ -39,9 +11,14 @@ export const mockPatientEvents: TimelineEvent[] = [
   {
     id: 'e2',
     type: 'medication',
-    label: 'Metformin 500mg start',
+    label: 'Metformin',
     timestamp: '2022-01-20T00:00:00Z',
-    meta: { dose: '500mg BID' },
+    ongoing: true,
+    segments: [
+      { start: '2022-01-20T00:00:00Z', label: '500mg BID' },
+      { start: '2023-05-05T00:00:00Z', label: '1000mg BID' },
+    ],
+    meta: { dose: '1000mg BID' },
   },
   { id: 'e3', type: 'lab', label: 'HbA1c 8.1%', timestamp: '2022-03-01T00:00:00Z', meta: { value: 8.1, units: '%' } },
   { id: 'e4', type: 'procedure', label: 'Knee arthroscopy', timestamp: '2022-06-15T00:00:00Z', meta: { side: 'left' } },
@@ -54,13 +31,6 @@ export const mockPatientEvents: TimelineEvent[] = [
   },
   { id: 'e6', type: 'complaint', label: 'Fatigue reported', timestamp: '2022-11-02T00:00:00Z' },
   { id: 'e7', type: 'imaging', label: 'DEXA: mild osteopenia', timestamp: '2023-02-01T00:00:00Z' },
-  {
-    id: 'e8',
-    type: 'medication',
-    label: 'Metformin ↑ to 1000mg',
-    timestamp: '2023-05-05T00:00:00Z',
-    meta: { dose: '1000mg BID' },
-  },
   {
     id: 'e9',
     type: 'life',
@@ -158,7 +128,7 @@ export const metricSeries: MetricSeries[] = [
   },
 ];
 
-export const patientProfile = {
+export const patientProfile: PatientProfile = {
   name: 'Jane Doe',
   age: 52,
   sex: 'F',
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { localPreferenceStore, StoredPreferences } from './preferences';
+
+const KEY = 'synoptic-timeline:prefs:dr-lee';
+
+describe('localPreferenceStore', () => {
+  let stored: Record<string, string>;
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (k: string) => stored[k] ?? null,
+        setItem: (k: string, v: string) => (stored[k] = v),
+      },
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('reads back what it saved', () => {
+    const prefs: StoredPreferences = {
+      defaults: { types: { lab: false }, series: { weight: true }, range: '1Y', smooth: 'basis', units: 'metric' },
+      presets: [{ name: 'Weights', prefs: { series: { weight: true }, range: 'ALL' } }],
+    };
+    localPreferenceStore.save('dr-lee', prefs);
+    expect(localPreferenceStore.load('dr-lee')).toEqual(prefs);
+  });
+
+  it('starts empty for a new user', () => {
+    expect(localPreferenceStore.load('dr-lee')).toEqual({ presets: [] });
+  });
+
+  it('drops fields that are no longer valid and keeps the rest', () => {
+    stored[KEY] = JSON.stringify({
+      defaults: { types: 'lab', series: { weight: 'yes' }, range: '2W', smooth: 'spline', units: 'metric' },
+      presets: [
+        { name: 'Old', prefs: { range: '5Y', types: ['lab'], series: { hba1c: true } } },
+        { prefs: { range: '1Y' } },
+        null,
+        { name: 'No prefs' },
+      ],
+    });
+    expect(localPreferenceStore.load('dr-lee')).toEqual({
+      defaults: { units: 'metric' },
+      presets: [
+        { name: 'Old', prefs: { series: { hba1c: true } } },
+        { name: 'No prefs', prefs: {} },
+      ],
+    });
+  });
+
+  it('ignores defaults and presets of the wrong shape', () => {
+    stored[KEY] = JSON.stringify({ defaults: 'ALL', presets: { name: 'Old' } });
+    expect(localPreferenceStore.load('dr-lee')).toEqual({ defaults: {}, presets: [] });
+  });
+
+  it('starts empty when the entry is unreadable', () => {
+    stored[KEY] = '{not json';
+    expect(localPreferenceStore.load('dr-lee')).toEqual({ presets: [] });
+  });
+});
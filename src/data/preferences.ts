@@ -0,0 +1,98 @@
+import type { MetricId, SmoothMode, TimelineEventType, TimeRange } from './types';
+import type { UnitSystem } from './units';
+
+// a user's preferred setup; every field is optional so presets can set only what they care about
+export interface TimelinePreferences {
+  types?: Partial<Record<TimelineEventType, boolean>>; // overrides of each type's defaultVisible
+  series?: Partial<Record<MetricId, boolean>>;
+  range?: TimeRange;
+  smooth?: SmoothMode;
+  units?: UnitSystem;
+}
+
+export interface Preset {
+  name: string;
+  prefs: TimelinePreferences;
+  builtIn?: boolean; // shipped presets can't be deleted
+}
+
+export interface StoredPreferences {
+  defaults?: TimelinePreferences; // applied on load
+  presets: Preset[]; // the user's own presets
+}
+
+// where preferences live; swap in a server-backed store to follow users across machines
+export interface PreferenceStore {
+  load: (userId: string) => StoredPreferences;
+  save: (userId: string, prefs: StoredPreferences) => void;
+}
+
+const storageKey = (userId: string) => `synoptic-timeline:prefs:${userId}`;
+
+const RANGES: TimeRange[] = ['1M', '3M', '6M', '1Y', 'ALL'];
+const SMOOTH: SmoothMode[] = ['straight', 'monotone', 'catmull', 'basis'];
+const UNITS: UnitSystem[] = ['imperial', 'metric'];
+
+const oneOf = <T extends string>(values: T[], v: unknown): v is T => values.includes(v as T);
+const isToggles = (v: unknown): v is Record<string, boolean> =>
+  !!v && typeof v === 'object' && !Array.isArray(v) && Object.values(v).every((on) => typeof on === 'boolean');
+
+// stored setups can be stale or corrupted, and are applied as they are, so a field that doesn't check out is dropped
+function validPrefs(p: unknown): TimelinePreferences {
+  if (!p || typeof p !== 'object') return {};
+  const { types, series, range, smooth, units } = p as Record<string, unknown>;
+  return {
+    ...(isToggles(types) && { types }),
+    ...(isToggles(series) && { series }),
+    ...(oneOf(RANGES, range) && { range }),
+    ...(oneOf(SMOOTH, smooth) && { smooth }),
+    ...(oneOf(UNITS, units) && { units }),
+  };
+}
+
+const isPreset = (p: Partial<Preset> | null) => !!p && typeof p.name === 'string';
+
+export const localPreferenceStore: PreferenceStore = {
+  load(userId) {
+    try {
+      const raw = window.localStorage.getItem(storageKey(userId));
+      const parsed = raw ? (JSON.parse(raw) as { defaults?: unknown; presets?: unknown }) : {};
+      return {
+        defaults: parsed.defaults === undefined ? undefined : validPrefs(parsed.defaults),
+        presets: Array.isArray(parsed.presets)
+          ? parsed.presets.filter(isPreset).map((p) => ({ name: p.name, prefs: validPrefs(p.prefs) }))
+          : [],
+      };
+    } catch {
+      return { presets: [] }; // unreadable or blocked storage: start from the built-in defaults
+    }
+  },
+  save(userId, prefs) {
+    try {
+      window.localStorage.setItem(storageKey(userId), JSON.stringify(prefs));
+    } catch {
+      // storage full or disabled; preferences just won't survive the reload
+    }
+  },
+};
+
+export const builtInPresets: Preset[] = [
+  {
+    name: 'Diabetes review',
+    builtIn: true,
+    prefs: {
+      types: { imaging: false, life: false },
+      series: { hba1c: true, weight: true, systolic: false, diastolic: false, sleepScore: false, stressIndex: false },
+      range: 'ALL',
+    },
+  },
+  {
+    name: 'Cardio review',
+    builtIn: true,
+    prefs: {
+      types: { imaging: true, life: false },
+      series: { systolic: true, diastolic: true, weight: true, hba1c: false, sleepScore: false, stressIndex: true },
+      range: '1Y',
+    },
+  },
+];
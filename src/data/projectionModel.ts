@@ -0,0 +1,56 @@
+import type { MetricId } from './types';
+
+// `to` changes by `coefficient` units for every unit `from` changes (linear, same direction when positive)
+export interface MetricRelationship {
+  from: MetricId;
+  to: MetricId;
+  coefficient: number;
+  note?: string; // where the number comes from; shown with the assumption
+}
+
+// Meta-analysis estimates of roughly -1 mmHg systolic / -0.9 mmHg diastolic per kg lost
+// (Neter et al., Hypertension 2003), converted to per-lb.
+export const defaultRelationships: MetricRelationship[] = [
+  { from: 'weight', to: 'systolic', coefficient: 0.48, note: '≈1 mmHg per kg (Neter 2003)' },
+  { from: 'weight', to: 'diastolic', coefficient: 0.42, note: '≈0.9 mmHg per kg (Neter 2003)' },
+  { from: 'stressIndex', to: 'sleepScore', coefficient: -0.3, note: 'illustrative' },
+];
+
+// a user-set projection, reduced to what the model needs
+export interface ProjectionSource {
+  metricId: MetricId;
+  t: Date;
+  delta: number; // change vs. the metric's last recorded value
+}
+
+export interface DerivedProjection {
+  metricId: MetricId;
+  t: Date; // latest of the contributing source dates
+  delta: number;
+  contributions: { from: MetricId; delta: number; relationship: MetricRelationship }[];
+}
+
+/**
+ * Propagate user-set projections through the relationships (one hop). Metrics that have their
+ * own manual projection are never overridden; contributions from several sources add up.
+ */
+export function deriveProjections(
+  sources: ProjectionSource[],
+  relationships: MetricRelationship[]
+): DerivedProjection[] {
+  const manual = new Set(sources.map((s) => s.metricId));
+  const out = new Map<MetricId, DerivedProjection>();
+
+  for (const src of sources) {
+    for (const rel of relationships) {
+      if (rel.from !== src.metricId || manual.has(rel.to)) continue;
+      const delta = rel.coefficient * src.delta;
+      const d = out.get(rel.to) ?? { metricId: rel.to, t: src.t, delta: 0, contributions: [] };
+      d.delta += delta;
+      if (src.t > d.t) d.t = src.t;
+      d.contributions.push({ from: src.metricId, delta, relationship: rel });
+      out.set(rel.to, d);
+    }
+  }
+  return [...out.values()];
+}
@@ -0,0 +1,69 @@
+import type { EventTypeDefinition } from './eventTypeRegistry';
+import type { TimelineEvent } from './types';
+
+// one part of a query: a word, a "quoted phrase", or field:value limited to one field (icd10:E11, type:lab)
+export interface SearchTerm {
+  field?: string;
+  text: string;
+}
+
+// a field of an event that a query matched, for showing why it's in the results
+export interface SearchHit {
+  field: string;
+  value: string;
+}
+
+/** Splits a query into lowercased terms; every term has to match for an event to be a result. */
+export function parseQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const m of query.toLowerCase().matchAll(/(?:([\w-]+):)?(?:"([^"]*)"|(\S+))/g)) {
+    const text = (m[2] ?? m[3] ?? '').trim();
+    if (text) terms.push(m[1] ? { field: m[1], text } : { text });
+  }
+  return terms;
+}
+
+// the searchable values of an event by field name: label, type, dose segments and meta (nested values flattened)
+function searchFields(e: TimelineEvent, def?: EventTypeDefinition): SearchHit[] {
+  const out: SearchHit[] = [
+    { field: 'label', value: e.label },
+    { field: 'type', value: def?.label ?? e.type },
+  ];
+  if (def && def.label.toLowerCase() !== e.type.toLowerCase()) out.push({ field: 'type', value: e.type });
+  for (const sg of e.segments ?? []) out.push({ field: 'dose', value: sg.label });
+  const walk = (field: string, v: unknown) => {
+    if (v == null) return;
+    if (typeof v === 'object') Object.values(v).forEach((c) => walk(field, c));
+    else out.push({ field, value: String(v) });
+  };
+  for (const [k, v] of Object.entries(e.meta ?? {})) walk(k, v);
+  return out;
+}
+
+// codes are written with and without their punctuation (E11.9, E119), so those compare without it
+const compact = (s: string) => s.replace(/[^a-z0-9]/g, '');
+const hit = (value: string, text: string) => {
+  const v = value.toLowerCase();
+  if (v.includes(text)) return true;
+  const c = compact(text);
+  return /\d/.test(text) && c.length > 1 && compact(v).includes(c);
+};
+
+/**
+ * The fields of `e` that match the query, or null when some term matches nothing. A field:value term
+ * only looks at fields with that name; when the event has none it is matched as plain text instead,
+ * so times like 10:30 still work.
+ */
+export function matchEvent(e: TimelineEvent, def: EventTypeDefinition | undefined, terms: SearchTerm[]) {
+  const fields = searchFields(e, def);
+  const hits = new Map<string, SearchHit>();
+  for (const t of terms) {
+    const named = t.field ? fields.filter((f) => f.field.toLowerCase() === t.field) : [];
+    const found = named.length
+      ? named.filter((f) => hit(f.value, t.text))
+      : fields.filter((f) => hit(f.value, t.field ? `${t.field}:${t.text}` : t.text));
+    if (!found.length) return null;
+    found.forEach((f) => hits.set(`${f.field}\n${f.value}`, f));
+  }
+  return [...hits.values()];
+}
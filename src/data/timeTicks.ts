@@ -0,0 +1,75 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+
+export type TickUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface TickLevel {
+  unit: TickUnit;
+  step: number;
+}
+
+const DAY = 86_400_000;
+const approxMs: Record<TickUnit, number> = { day: DAY, week: 7 * DAY, month: 30.44 * DAY, year: 365.25 * DAY };
+
+// finest first; the axis uses the finest level whose ticks don't crowd each other
+const LEVELS: TickLevel[] = [
+  { unit: 'day', step: 1 },
+  { unit: 'day', step: 2 },
+  { unit: 'week', step: 1 },
+  { unit: 'week', step: 2 },
+  { unit: 'month', step: 1 },
+  { unit: 'month', step: 3 },
+  { unit: 'month', step: 6 },
+  { unit: 'year', step: 1 },
+  { unit: 'year', step: 2 },
+  { unit: 'year', step: 5 },
+  { unit: 'year', step: 10 },
+];
+
+const floorTo = (d: Date, { unit, step }: TickLevel) => {
+  if (unit === 'day') return startOfDay(d);
+  if (unit === 'week') return startOfWeek(d, { weekStartsOn: 1 });
+  if (unit === 'month') {
+    const m = startOfMonth(d);
+    return addMonths(m, -(m.getMonth() % step));
+  }
+  const y = startOfYear(d);
+  return addYears(y, -(y.getFullYear() % step));
+};
+
+const advance = (d: Date, { unit, step }: TickLevel) =>
+  unit === 'day'
+    ? addDays(d, step)
+    : unit === 'week'
+      ? addWeeks(d, step)
+      : unit === 'month'
+        ? addMonths(d, step)
+        : addYears(d, step);
+
+/** Calendar-aligned ticks for a time domain drawn `widthPx` wide: years, months, weeks or days. */
+export function timeTicks(domain: [Date, Date], widthPx: number, minSpacingPx = 80) {
+  const msPerPx = (domain[1].getTime() - domain[0].getTime()) / Math.max(1, widthPx);
+  const level = LEVELS.find((l) => (approxMs[l.unit] * l.step) / msPerPx >= minSpacingPx) ?? LEVELS[LEVELS.length - 1];
+
+  const ticks: Date[] = [];
+  for (let t = floorTo(domain[0], level); t <= domain[1]; t = advance(t, level)) {
+    if (t >= domain[0]) ticks.push(t);
+  }
+  return { level, ticks };
+}
+
+// years stand alone so the axis can emphasize them; finer levels name the month
+export function formatTick(d: Date, level: TickLevel) {
+  if (level.unit === 'year') return format(d, 'yyyy');
+  if (level.unit === 'month') return d.getMonth() === 0 ? format(d, 'yyyy') : format(d, 'MMM');
+  return d.getDate() === 1 && d.getMonth() === 0 ? format(d, 'yyyy') : format(d, 'MMM d');
+}
@@ -0,0 +1,58 @@
+// built-in event types; any other id works too and gets its presentation from the event type registry
+export type BuiltInEventType =
+  | 'diagnosis'
+  | 'medication'
+  | 'lab'
+  | 'procedure'
+  | 'complaint'
+  | 'imaging'
+  | 'vital'
+  | 'life'; // positive/negative life events
+
+export type TimelineEventType = BuiltInEventType | (string & {});
+
+// a stretch within a duration event, e.g. one dose of a medication course; runs until the next segment
+export interface EventSegment {
+  start: string; // ISO
+  label: string;
+}
+
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  label: string;
+  timestamp: string; // start, for duration events
+  end?: string; // ISO; set for events with a duration (medication course, hospital stay)
+  ongoing?: boolean; // open-ended duration (no end yet)
+  segments?: EventSegment[];
+  meta?: Record<string, unknown>;
+}
+
+export interface MetricPoint {
+  t: string; // ISO
+  value: number; // numeric value
+}
+
+// open-ended: any id works; known ids get their presentation from the metric registry
+export type MetricId = string;
+
+export interface MetricSeries {
+  id: MetricId;
+  label: string;
+  unit?: string;
+  points: MetricPoint[];
+}
+
+export interface PatientProfile {
+  name: string;
+  age?: number; // unknown without a date of birth
+  sex: string;
+  dob: string; // ISO date
+  mrn: string;
+}
+
+// view range chips
+export type TimeRange = '1M' | '3M' | '6M' | '1Y' | 'ALL';
+
+// how metric lines are drawn between readings
+export type SmoothMode = 'straight' | 'monotone' | 'catmull' | 'basis';
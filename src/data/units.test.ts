@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { importData } from './importExport';
+import { convertValue, normalizeUnit } from './units';
+
+describe('normalizeUnit', () => {
+  it('maps common spellings onto one unit', () => {
+    expect(normalizeUnit(' KG ')).toBe('kg');
+    expect(normalizeUnit('[lb_av]')).toBe('lbs');
+    expect(normalizeUnit('furlongs')).toBe('furlongs');
+  });
+
+  it('treats empty and non-string units as missing', () => {
+    expect(normalizeUnit('')).toBeUndefined();
+    expect(normalizeUnit(undefined)).toBeUndefined();
+    expect(normalizeUnit(42)).toBeUndefined();
+    expect(normalizeUnit(null)).toBeUndefined();
+  });
+});
+
+describe('convertValue', () => {
+  it('converts and rounds to one decimal', () => {
+    expect(convertValue(90, 'kg', 'lbs')).toBe(198.4);
+    expect(convertValue(7, '%', 'mmol/mol', 'hba1c')).toBe(53);
+  });
+
+  it('keeps full precision when the units already match', () => {
+    expect(convertValue(6.84, '%', '%', 'hba1c')).toBe(6.84);
+    expect(convertValue(201.35, 'lb', 'lbs')).toBe(201.35);
+  });
+
+  it('returns null when there is no known conversion', () => {
+    expect(convertValue(1, 'kg', 'mmHg')).toBeNull();
+  });
+});
+
+describe('JSON import', () => {
+  it('survives a series whose unit is not a string', () => {
+    const text = JSON.stringify({ series: [{ id: 'steps', unit: 7, points: [{ t: '2024-01-01', value: 5000 }] }] });
+    const { series } = importData(text, 'json');
+    expect(series).toHaveLength(1);
+    expect(series[0].unit).toBeUndefined();
+    expect(series[0].points).toEqual([{ t: '2024-01-01', value: 5000 }]);
+  });
+});
@@ -0,0 +1,163 @@
+import type { MetricDefinition, MetricRegistry, ReferenceRange } from './metricRegistry';
+import type { MetricRelationship } from './projectionModel';
+import type { MetricId, MetricPoint, MetricSeries } from './types';
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export const unitSystemLabel: Record<UnitSystem, string> = {
+  imperial: 'Imperial',
+  metric: 'Metric',
+};
+
+// to = from * factor + offset
+interface UnitConversion {
+  from: string;
+  to: string;
+  factor: number;
+  offset?: number;
+  metric?: MetricId; // analyte-specific conversions (e.g. HbA1c % vs mmol/mol)
+}
+
+// spellings seen in FHIR (UCUM), CSVs and hand-entered labels
+const UNIT_ALIASES: Record<string, string> = {
+  lb: 'lbs',
+  lbs: 'lbs',
+  '[lb_av]': 'lbs',
+  pound: 'lbs',
+  pounds: 'lbs',
+  kg: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  cm: 'cm',
+  in: 'in',
+  '[in_i]': 'in',
+  mmhg: 'mmHg',
+  'mm[hg]': 'mmHg',
+  '%': '%',
+  'mmol/mol': 'mmol/mol',
+  'mg/dl': 'mg/dL',
+  'mmol/l': 'mmol/L',
+  cel: '°C',
+  '°c': '°C',
+  '[degf]': '°F',
+  '°f': '°F',
+};
+
+const CONVERSIONS: UnitConversion[] = [
+  { from: 'kg', to: 'lbs', factor: 2.20462 },
+  { from: 'cm', to: 'in', factor: 1 / 2.54 },
+  { from: '°C', to: '°F', factor: 1.8, offset: 32 },
+  // NGSP/IFCC master equation: mmol/mol = 10.929 × (% − 2.15)
+  { from: '%', to: 'mmol/mol', factor: 10.929, offset: -23.497, metric: 'hba1c' },
+  { from: 'mmol/L', to: 'mg/dL', factor: 18.016, metric: 'glucose' },
+];
+
+// takes anything, since imported files can put a number or null where the unit goes
+export const normalizeUnit = (unit: unknown) =>
+  typeof unit !== 'string' || unit.trim() === '' ? undefined : (UNIT_ALIASES[unit.trim().toLowerCase()] ?? unit.trim());
+
+/** Linear map from one unit to another (identity when they match); null when no conversion is known. */
+export function conversionBetween(
+  from: string | undefined,
+  to: string | undefined,
+  metric?: MetricId
+): { factor: number; offset: number } | null {
+  const a = normalizeUnit(from);
+  const b = normalizeUnit(to);
+  if (a === b) return { factor: 1, offset: 0 };
+  for (const c of CONVERSIONS) {
+    if (c.metric && c.metric !== metric) continue;
+    if (c.from === a && c.to === b) return { factor: c.factor, offset: c.offset ?? 0 };
+    if (c.from === b && c.to === a) return { factor: 1 / c.factor, offset: -(c.offset ?? 0) / c.factor };
+  }
+  return null;
+}
+
+// one decimal is enough for every unit charted so far
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** `value` in the `to` unit, rounded to one decimal when converted; null when no conversion is known. */
+export function convertValue(value: number, from: string | undefined, to: string | undefined, metric?: MetricId) {
+  if (normalizeUnit(from) === normalizeUnit(to)) return value; // nothing to convert, so keep full precision
+  const c = conversionBetween(from, to, metric);
+  return c ? round1(value * c.factor + c.offset) : null;
+}
+
+// unit a metric is shown in under a unit system (its stored unit unless the definition says otherwise)
+export const displayUnit = (def: MetricDefinition, system: UnitSystem) => def.displayUnits?.[system] ?? def.unit;
+
+/**
+ * The definition as shown under `system`: unit, hard minimum and reference ranges converted.
+ * Definitions without a conversion to their display unit are returned unchanged.
+ */
+export function localizeMetric(def: MetricDefinition, system: UnitSystem): MetricDefinition {
+  const unit = displayUnit(def, system);
+  const c = conversionBetween(def.unit, unit, def.id);
+  if (!c || unit === def.unit) return def;
+  const conv = (v: number | undefined) => (v == null ? undefined : round1(v * c.factor + c.offset));
+  const ranges = (rs: ReferenceRange[]) => rs.map((r) => ({ ...r, min: conv(r.min), max: conv(r.max) }));
+  const { referenceRanges } = def;
+  return {
+    ...def,
+    unit,
+    hardMin: conv(def.hardMin),
+    referenceRanges: !referenceRanges
+      ? undefined
+      : typeof referenceRanges === 'function'
+        ? (profile) => ranges(referenceRanges(profile))
+        : ranges(referenceRanges),
+  };
+}
+
+// a series' points in another unit; unchanged when no conversion is known
+export function convertSeries(s: MetricSeries, unit: string | undefined): MetricSeries {
+  const c = conversionBetween(s.unit, unit, s.id);
+  if (!c || normalizeUnit(s.unit) === normalizeUnit(unit)) return s;
+  return { ...s, unit, points: s.points.map((p) => ({ ...p, value: round1(p.value * c.factor + c.offset) })) };
+}
+
+const byTime = (a: MetricPoint, b: MetricPoint) => new Date(a.t).getTime() - new Date(b.t).getTime();
+const inTimeOrder = (points: MetricPoint[]) => points.every((p, i) => i === 0 || byTime(points[i - 1], p) <= 0);
+
+/**
+ * Put every series into its registered unit (or the unit of the first series with that id) and
+ * merge series that share an id. Series that can't be converted are kept as they are. Points
+ * come out in time order.
+ */
+export function normalizeSeries(series: MetricSeries[], registry: MetricRegistry): MetricSeries[] {
+  const byId = new Map<MetricId, MetricSeries>();
+  const out: MetricSeries[] = [];
+  for (const s of series) {
+    const existing = byId.get(s.id);
+    const target = registry[s.id]?.unit ?? existing?.unit ?? s.unit;
+    const converted = convertSeries({ ...s, unit: normalizeUnit(s.unit) ?? s.unit }, target);
+    if (!inTimeOrder(converted.points)) converted.points = [...converted.points].sort(byTime);
+    if (!existing) {
+      byId.set(s.id, converted);
+      out.push(converted);
+    } else if (normalizeUnit(converted.unit) === normalizeUnit(existing.unit)) {
+      existing.points = [...existing.points, ...converted.points].sort(byTime);
+    } else {
+      // no conversion into the existing unit: chart it separately rather than on the wrong scale
+      out.push({ ...converted, id: `${s.id}:${converted.unit}`, label: `${s.label} (${converted.unit})` });
+    }
+  }
+  return out;
+}
+
+/**
+ * Relationship coefficients re-expressed for metrics shown in other units, so a projected
+ * change in kg moves blood pressure by the same amount as the equivalent change in lbs.
+ */
+export function localizeRelationships(
+  relationships: MetricRelationship[],
+  stored: Record<MetricId, MetricDefinition>,
+  shown: Record<MetricId, MetricDefinition>
+): MetricRelationship[] {
+  const scale = (id: MetricId) =>
+    stored[id] && shown[id] ? (conversionBetween(stored[id].unit, shown[id].unit, id)?.factor ?? 1) : 1;
+  return relationships.map((r) => {
+    const k = scale(r.to) / scale(r.from);
+    return k === 1 ? r : { ...r, coefficient: Math.round(r.coefficient * k * 100) / 100 };
+  });
+}
@@ -0,0 +1,96 @@
+import type { ForecastMethod } from './forecast';
+import type { MetricId, SmoothMode, TimelineEventType, TimeRange } from './types';
+import type { UnitSystem } from './units';
+
+// everything needed to reproduce a view; projections are kept in data space so links survive other screen sizes
+export interface ViewState {
+  types: Partial<Record<TimelineEventType, boolean>>; // overrides of each type's defaultVisible
+  series: Partial<Record<MetricId, boolean>>;
+  range: TimeRange;
+  domain: [Date, Date] | null; // zoomed/brushed window, when it isn't a chip range
+  smooth: SmoothMode;
+  units: UnitSystem;
+  projections: { metricId: MetricId; t: Date; value: number }[];
+  forecasts: Partial<Record<MetricId, ForecastMethod>>;
+  impact: boolean;
+  event: string | null; // selected event id
+}
+
+const RANGES: TimeRange[] = ['1M', '3M', '6M', '1Y', 'ALL'];
+const SMOOTH: SmoothMode[] = ['straight', 'monotone', 'catmull', 'basis'];
+const UNITS: UnitSystem[] = ['imperial', 'metric'];
+const METHODS: ForecastMethod[] = ['linear', 'weighted'];
+
+const day = (d: Date) => d.toISOString().slice(0, 10);
+const validDate = (s: string | undefined) => (s && !isNaN(new Date(s).getTime()) ? new Date(s) : null);
+
+// "lab,-imaging": listed ids are on, "-" prefixed ones off
+const encodeToggles = (t: Partial<Record<string, boolean>>) =>
+  Object.entries(t)
+    .filter(([, on]) => on != null)
+    .map(([id, on]) => (on ? id : `-${id}`))
+    .join(',');
+const decodeToggles = (s: string | null) =>
+  Object.fromEntries(
+    (s ?? '')
+      .split(',')
+      .filter(Boolean)
+      .map((id) => (id.startsWith('-') ? [id.slice(1), false] : [id, true]))
+  );
+
+/** Query string for a view; fields equal to `defaults` are left out to keep links short. */
+export function encodeViewState(s: ViewState, defaults: Pick<ViewState, 'range' | 'smooth' | 'units'>): string {
+  const q = new URLSearchParams();
+  const types = encodeToggles(s.types);
+  const series = encodeToggles(s.series);
+  if (types) q.set('types', types);
+  if (series) q.set('metrics', series);
+  if (s.domain) {
+    q.set('from', day(s.domain[0]));
+    q.set('to', day(s.domain[1]));
+  } else if (s.range !== defaults.range) q.set('range', s.range);
+  if (s.smooth !== defaults.smooth) q.set('smooth', s.smooth);
+  if (s.units !== defaults.units) q.set('units', s.units);
+  for (const p of s.projections) q.append('proj', `${p.metricId},${day(p.t)},${Math.round(p.value * 10) / 10}`);
+  for (const [id, m] of Object.entries(s.forecasts)) if (m) q.append('forecast', `${id},${m}`);
+  if (s.impact) q.set('impact', '1');
+  if (s.event) q.set('event', s.event);
+  return q.toString();
+}
+
+/** The parts of a view a query string specifies; unknown or malformed values are ignored. */
+export function decodeViewState(search: string): Partial<ViewState> {
+  const q = new URLSearchParams(search);
+  const out: Partial<ViewState> = {
+    types: decodeToggles(q.get('types')),
+    series: decodeToggles(q.get('metrics')),
+    impact: q.get('impact') === '1',
+    event: q.get('event'),
+  };
+
+  const range = q.get('range') as TimeRange | null;
+  if (range && RANGES.includes(range)) out.range = range;
+  const [from, to] = [validDate(q.get('from') ?? undefined), validDate(q.get('to') ?? undefined)];
+  out.domain = from && to && from < to ? [from, to] : null;
+  const smooth = q.get('smooth') as SmoothMode | null;
+  if (smooth && SMOOTH.includes(smooth)) out.smooth = smooth;
+  const units = q.get('units') as UnitSystem | null;
+  if (units && UNITS.includes(units)) out.units = units;
+
+  // the id may itself contain commas; date and value are always the last two fields
+  out.projections = q.getAll('proj').flatMap((p) => {
+    const parts = p.split(',');
+    const value = Number(parts.pop());
+    const t = validDate(parts.pop());
+    const metricId = parts.join(',');
+    return metricId && t && Number.isFinite(value) ? [{ metricId, t, value }] : [];
+  });
+  out.forecasts = Object.fromEntries(
+    q.getAll('forecast').flatMap((f) => {
+      const i = f.lastIndexOf(',');
+      const method = f.slice(i + 1) as ForecastMethod;
+      return i > 0 && METHODS.includes(method) ? [[f.slice(0, i), method]] : [];
+    })
+  );
+  return out;
+}
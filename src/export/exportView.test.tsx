@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MetricCanvas } from '../components/MetricCanvas';
+import { buildExportSvg, ExportContext } from './exportView';
+
+const PIXELS = 'data:image/png;base64,cGl4ZWxz';
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// a chart as Timeline draws it in canvas mode: an axis line plus the metrics canvas
+function chart(): SVGSVGElement {
+  const layers = [{ color: '#60a5fa', xs: Float64Array.of(60, 400), ys: Float64Array.of(300, 250) }];
+  const host = document.createElement('div');
+  act(() =>
+    createRoot(host).render(
+      <svg width={800} height={500}>
+        <line x1={50} x2={750} y1={480} y2={480} stroke="currentColor" />
+        <MetricCanvas x={50} y={200} width={700} height={260} layers={layers} />
+      </svg>
+    )
+  );
+  return host.querySelector('svg')!;
+}
+
+const context = (svg: SVGSVGElement): ExportContext => ({
+  svg,
+  profile: { name: 'Joanna Rivera', age: 53, sex: 'F', dob: '1972-03-15', mrn: 'MRN-4471' },
+  domain: [new Date('2024-01-01'), new Date('2025-01-01')],
+  eventTypes: [],
+  metrics: [{ label: 'Heart rate (bpm)', color: '#60a5fa' }],
+});
+
+describe('buildExportSvg', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('carries canvas-painted metrics into the export as an image', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => null); // jsdom can't paint
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(PIXELS);
+    const svg = chart();
+    const { markup } = buildExportSvg(context(svg));
+
+    expect(toDataURL).toHaveBeenCalledWith('image/png');
+    const out = new DOMParser().parseFromString(markup, 'image/svg+xml');
+    expect(out.querySelector('canvas, foreignObject')).toBeNull();
+    const image = out.querySelector('image')!;
+    expect(['x', 'y', 'width', 'height', 'href'].map((a) => image.getAttribute(a))).toEqual([
+      '50',
+      '200',
+      '700',
+      '260',
+      PIXELS,
+    ]);
+    // the live chart keeps its canvas
+    expect(svg.querySelector('foreignObject canvas')).not.toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import type { PatientProfile } from '../data/types';
+import { A4_LANDSCAPE, imagePagesToPdf, PdfImagePage } from './pdf';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+export interface ExportContext {
+  svg: SVGSVGElement; // the live chart, exported as currently filtered, ranged and projected
+  profile: PatientProfile;
+  domain: [Date, Date];
+  eventTypes: LegendItem[]; // enabled types only
+  metrics: LegendItem[]; // enabled metrics only
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const bg = '#0c1220';
+const text = '#e2e8f0';
+const muted = '#94a3b8';
+const headerH = 72;
+const legendRowH = 22;
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// clone the chart with anything that depends on page CSS resolved into attributes
+function inlineChart(svg: SVGSVGElement): SVGSVGElement {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const src = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const dst = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  src.forEach((el, i) => {
+    const out = dst[i];
+    const color = getComputedStyle(el).color;
+    for (const attr of ['fill', 'stroke']) {
+      if (out.getAttribute(attr) === 'currentColor') out.setAttribute(attr, color);
+    }
+    out.removeAttribute('class');
+  });
+  // canvas-painted metrics (large records) don't survive the clone, so their pixels go in as an image
+  const canvases = Array.from(svg.querySelectorAll('canvas'));
+  Array.from(clone.querySelectorAll('canvas')).forEach((copy, i) => {
+    const holder = copy.closest('foreignObject'); // how MetricCanvas places it in the chart
+    if (!holder) return;
+    const image = document.createElementNS(SVG_NS, 'image');
+    for (const attr of ['x', 'y', 'width', 'height']) image.setAttribute(attr, holder.getAttribute(attr) ?? '0');
+    image.setAttribute('href', canvases[i].toDataURL('image/png'));
+    holder.replaceWith(image);
+  });
+  clone.removeAttribute('style');
+  return clone;
+}
+
+// legend items laid out in rows that wrap at `width`
+function legendRows(title: string, items: LegendItem[], width: number) {
+  const rows: { x: number; item: LegendItem }[][] = [[]];
+  let x = 90;
+  for (const item of items) {
+    const w = 28 + item.label.length * 7;
+    if (x + w > width - 16 && rows[rows.length - 1].length) {
+      rows.push([]);
+      x = 90;
+    }
+    rows[rows.length - 1].push({ x, item });
+    x += w;
+  }
+  return { title, rows: items.length ? rows : [] };
+}
+
+/** Standalone SVG of the current view: patient header, the chart, and a legend of what is shown. */
+export function buildExportSvg(ctx: ExportContext) {
+  const chart = inlineChart(ctx.svg);
+  const chartW = Number(ctx.svg.getAttribute('width')) || ctx.svg.getBoundingClientRect().width;
+  const chartH = Number(ctx.svg.getAttribute('height')) || ctx.svg.getBoundingClientRect().height;
+  const width = Math.round(chartW);
+
+  const legends = [legendRows('Events', ctx.eventTypes, width), legendRows('Metrics', ctx.metrics, width)];
+  const legendH = legends.reduce((h, l) => h + l.rows.length * legendRowH, 0) + 16;
+  const height = Math.round(headerH + chartH + legendH);
+  const font = getComputedStyle(ctx.svg).fontFamily || 'sans-serif';
+  const { profile: p, domain } = ctx;
+
+  const header = `
+    <text x="16" y="30" fill="${text}" font-size="18" font-weight="600">${esc(p.name)}</text>
+    <text x="16" y="54" fill="${muted}" font-size="13">${esc(
+      [p.age != null && `Age ${p.age}`, `Sex ${p.sex}`, `DOB ${p.dob}`, `MRN ${p.mrn}`].filter(Boolean).join(' · ')
+    )}</text>
+    <text x="${width - 16}" y="30" fill="${text}" font-size="13" text-anchor="end">${esc(
+      `${format(domain[0], 'PP')} – ${format(domain[1], 'PP')}`
+    )}</text>
+    <text x="${width - 16}" y="54" fill="${muted}" font-size="11" text-anchor="end">${esc(
+      `Exported ${format(new Date(), 'PPp')}`
+    )}</text>`;
+
+  let y = headerH + chartH + 8;
+  const legend = legends
+    .flatMap(({ title, rows }) =>
+      rows.map((row, i) => {
+        const rowY = (y += legendRowH) - 6;
+        const label = i === 0 ? `<text x="16" y="${rowY}" fill="${muted}" font-size="12">${title}</text>` : '';
+        return (
+          label +
+          row
+            .map(
+              ({ x, item }) =>
+                `<rect x="${x}" y="${rowY - 9}" width="10" height="10" rx="2" fill="${item.color}"/>` +
+                `<text x="${x + 16}" y="${rowY}" fill="${text}" font-size="12">${esc(item.label)}</text>`
+            )
+            .join('')
+        );
+      })
+    )
+    .join('');
+
+  chart.setAttribute('x', '0');
+  chart.setAttribute('y', String(headerH));
+  const markup =
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `font-family="${esc(font)}">` +
+    `<rect width="100%" height="100%" fill="${bg}"/>${header}${new XMLSerializer().serializeToString(chart)}${legend}` +
+    `</svg>`;
+  return { markup, width, height };
+}
+
+async function rasterize(markup: string, width: number, height: number, dpi: number) {
+  const scale = dpi / 96;
+  const img = new Image();
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  await img.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const g = canvas.getContext('2d')!;
+  g.fillStyle = bg;
+  g.fillRect(0, 0, canvas.width, canvas.height);
+  g.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error(`Could not encode ${type}`))), type, quality)
+  );
+
+// split the image into page-shaped slices, top to bottom, each fitted to the page width
+async function paginate(canvas: HTMLCanvasElement, margin = 24): Promise<PdfImagePage[]> {
+  const [pageW, pageH] = A4_LANDSCAPE;
+  const sliceH = Math.round((canvas.width * (pageH - 2 * margin)) / (pageW - 2 * margin));
+  const pages: PdfImagePage[] = [];
+  for (let top = 0; top < canvas.height; top += sliceH) {
+    const h = Math.min(sliceH, canvas.height - top);
+    const slice = document.createElement('canvas');
+    slice.width = canvas.width;
+    slice.height = h;
+    slice.getContext('2d')!.drawImage(canvas, 0, top, canvas.width, h, 0, 0, canvas.width, h);
+    const jpeg = new Uint8Array(await (await toBlob(slice, 'image/jpeg', 0.92)).arrayBuffer());
+    pages.push({ jpeg, width: slice.width, height: h });
+  }
+  return pages;
+}
+
+export function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Render the current view and download it; `dpi` applies to PNG and PDF. */
+export async function exportView(ctx: ExportContext, fmt: ExportFormat, dpi = 150) {
+  const { markup, width, height } = buildExportSvg(ctx);
+  const name = `timeline-${ctx.profile.mrn}-${format(new Date(), 'yyyy-MM-dd')}.${fmt}`;
+  if (fmt === 'svg') return download(new Blob([markup], { type: 'image/svg+xml' }), name);
+
+  const canvas = await rasterize(markup, width, height, dpi);
+  if (fmt === 'png') return download(await toBlob(canvas, 'image/png'), name);
+  download(imagePagesToPdf(await paginate(canvas)), name);
+}
@@ -0,0 +1,71 @@
+// Minimal PDF 1.4 writer: one JPEG image per page, scaled to fit inside the margins.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array; // baseline JPEG bytes (embedded as-is with DCTDecode)
+  width: number; // image size in px
+  height: number;
+}
+
+export interface PdfPageOptions {
+  size?: [number, number]; // points; defaults to A4 landscape
+  margin?: number; // points
+}
+
+export const A4_LANDSCAPE: [number, number] = [842, 595];
+
+const latin1 = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0) & 0xff);
+
+export function imagePagesToPdf(pages: PdfImagePage[], opts: PdfPageOptions = {}): Blob {
+  const [pageW, pageH] = opts.size ?? A4_LANDSCAPE;
+  const margin = opts.margin ?? 24;
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = []; // byte offset per object number (1-based)
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? latin1(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (n: number, ...parts: (string | Uint8Array)[]) => {
+    offsets[n] = length;
+    write(`${n} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // 1 catalog, 2 page tree, then page / content / image per page
+  const pageObj = (i: number) => 3 + i * 3;
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((p, i) => {
+    const [page, content, image] = [pageObj(i), pageObj(i) + 1, pageObj(i) + 2];
+    const scale = Math.min((pageW - 2 * margin) / p.width, (pageH - 2 * margin) / p.height);
+    const [w, h] = [p.width * scale, p.height * scale];
+    const draw = `q ${w.toFixed(2)} 0 0 ${h.toFixed(2)} ${margin} ${(pageH - margin - h).toFixed(2)} cm /Im0 Do Q`;
+
+    object(
+      page,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageW} ${pageH}] `,
+      `/Resources << /XObject << /Im0 ${image} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+    object(content, `<< /Length ${draw.length} >>\nstream\n${draw}\nendstream`);
+    object(
+      image,
+      `<< /Type /XObject /Subtype /Image /Width ${p.width} /Height ${p.height} /ColorSpace /DeviceRGB `,
+      `/BitsPerComponent 8 /Filter /DCTDecode /Length ${p.jpeg.length} >>\nstream\n`,
+      p.jpeg,
+      '\nendstream'
+    );
+  });
+
+  const xref = length;
+  const count = offsets.length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let n = 1; n < count; n++) write(`${String(offsets[n]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
@@ -0,0 +1,17 @@
+import React from 'react';
+
+// tracks an element's content size with a ResizeObserver
+export function useContainerSize<T extends HTMLElement>() {
+  const ref = React.useRef<T | null>(null);
+  const [size, setSize] = React.useState({ w: 0, h: 0 });
+  React.useLayoutEffect(() => {
+    if (!ref.current) return;
+    const obs = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ w: Math.round(width), h: Math.round(height) });
+    });
+    obs.observe(ref.current);
+    return () => obs.disconnect();
+  }, []);
+  return { ref, width: size.w, height: size.h };
+}
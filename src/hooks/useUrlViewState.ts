@@ -0,0 +1,41 @@
+import React from 'react';
+import { decodeViewState, ViewState } from '../data/viewState';
+
+const SETTLE_MS = 400; // drags and wheel zooms become one history entry once they stop
+
+/**
+ * Keeps the URL query in sync with the view. Settled view changes are pushed as history
+ * entries, and back/forward hand the decoded state to `apply`.
+ */
+export function useUrlViewState(enabled: boolean, query: string, apply: (state: Partial<ViewState>) => void) {
+  const applyRef = React.useRef(apply);
+  applyRef.current = apply;
+  // the first sync after load or back/forward replaces the entry instead of adding one
+  const restoring = React.useRef(true);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    if (query === window.location.search.replace(/^\?/, '')) {
+      restoring.current = false;
+      return;
+    }
+    const id = window.setTimeout(() => {
+      const { pathname, hash } = window.location;
+      const url = `${pathname}${query ? `?${query}` : ''}${hash}`;
+      if (restoring.current) window.history.replaceState(null, '', url);
+      else window.history.pushState(null, '', url);
+      restoring.current = false;
+    }, SETTLE_MS);
+    return () => window.clearTimeout(id);
+  }, [enabled, query]);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const onPop = () => {
+      restoring.current = true;
+      applyRef.current(decodeViewState(window.location.search));
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, [enabled]);
+}
@@ -1,10 +1,18 @@
 import { Timeline } from '../components/Timeline';
+import { benchmarkFixture } from '../data/benchmarkFixture';
+import { metricSeries, mockPatientEvents, patientProfile } from '../data/mockPatientData';
+
+// `#bench` (100k points) or `#bench=<points>` swaps in a wearables-scale record
+const bench = /^#bench(?:=(\d+))?/.exec(window.location.hash);
+const data = bench
+  ? benchmarkFixture({ points: Number(bench[1] ?? 100_000) })
+  : { events: mockPatientEvents, series: metricSeries };
 
 export default function App() {
   return (
     <div className="min-h-screen w-full bg-[#0a0f1c] text-slate-100">
       <div className="p-6">
-        <Timeline />
+        <Timeline events={data.events} series={data.series} profile={patientProfile} urlState userId="demo" />
       </div>
     </div>
   );
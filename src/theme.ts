@@ -0,0 +1,12 @@
+// shared neon palette for event types, metric lines and overlays
+export const neon = {
+  cyan: '#21d4fd',
+  purple: '#b721ff',
+  teal: '#12d6b0',
+  amber: '#ffb020',
+  pink: '#ff5ea7',
+  blue: '#3ba7ff',
+};
+
+// cycled through for anything that arrives without a registered color
+export const fallbackPalette = [neon.cyan, neon.blue, neon.purple, neon.teal, neon.pink, neon.amber];